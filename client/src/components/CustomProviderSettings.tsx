@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Server, Trash2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+
+interface CustomProvider {
+  id: string;
+  providerId: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  maxTokens?: number;
+  embeddingModel?: string;
+  hasApiKey: boolean;
+}
+
+interface CustomProviderSettingsProps {
+  authToken: string;
+}
+
+const emptyForm = { id: '', name: '', baseURL: '', model: '', embeddingModel: '', apiKey: '' };
+
+export function CustomProviderSettings({ authToken }: CustomProviderSettingsProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  const makeAuthRequest = (url: string, options: RequestInit = {}) => {
+    return fetch(url, {
+      ...options,
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+  };
+
+  const { data: customProviders = [] } = useQuery<CustomProvider[]>({
+    queryKey: ['/api/custom-providers'],
+    queryFn: () => makeAuthRequest('/api/custom-providers').then(res => res.json()),
+    enabled: !!authToken,
+  });
+
+  // Provider list and model catalog both include custom endpoints
+  const refreshProviders = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/custom-providers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/providers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/providers/models'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await makeAuthRequest('/api/custom-providers', {
+        method: 'POST',
+        body: JSON.stringify({
+          id: form.id.trim(),
+          name: form.name.trim(),
+          baseURL: form.baseURL.trim(),
+          model: form.model.trim(),
+          ...(form.embeddingModel.trim() ? { embeddingModel: form.embeddingModel.trim() } : {}),
+          ...(form.apiKey.trim() ? { apiKey: form.apiKey.trim() } : {}),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        const details = result.errors?.map((e: any) => `${e.path.join('.')}: ${e.message}`).join('\n');
+        throw new Error(details || result.message);
+      }
+      return result;
+    },
+    onSuccess: () => {
+      setForm(emptyForm);
+      refreshProviders();
+    },
+    onError: (error: Error) => {
+      alert(`❌ Could not save custom provider:\n${error.message}`);
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await makeAuthRequest(`/api/custom-providers/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || 'Delete failed');
+      }
+    },
+    onSuccess: refreshProviders,
+    onError: (error: Error) => {
+      alert(`❌ ${error.message}`);
+    }
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (providerId: string) => {
+      const response = await makeAuthRequest('/api/providers/test', {
+        method: 'POST',
+        body: JSON.stringify({ providerId }),
+      });
+      return response.json();
+    },
+    onSuccess: (result: { success: boolean; error?: string }) => {
+      alert(result.success ? '✓ Endpoint responded successfully' : `❌ ${result.error}`);
+    }
+  });
+
+  const canSave = form.id.trim() && form.name.trim() && form.baseURL.trim() && form.model.trim();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Server className="w-5 h-5" />
+        <h2 className="text-xl font-semibold">Custom AI Endpoints</h2>
+      </div>
+
+      {customProviders.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {customProviders.map((provider) => (
+            <Card key={provider.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">{provider.name}</CardTitle>
+                  <Badge variant="outline" className="text-xs">
+                    {provider.hasApiKey ? 'API Key Set' : 'No API Key'}
+                  </Badge>
+                </div>
+                <CardDescription className="text-sm break-all">{provider.baseURL}</CardDescription>
+              </CardHeader>
+              <CardContent className="pt-0">
+                <div className="text-sm text-gray-600 mb-3">
+                  Model: {provider.model}
+                  {provider.embeddingModel && <div>Embeddings: {provider.embeddingModel}</div>}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => testMutation.mutate(provider.providerId)}
+                    disabled={testMutation.isPending}
+                    data-testid={`button-test-custom-${provider.id}`}
+                  >
+                    Test
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="px-2"
+                    onClick={() => deleteMutation.mutate(provider.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-custom-${provider.id}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="w-5 h-5" />
+            Add Endpoint
+          </CardTitle>
+          <CardDescription>
+            Any server that speaks the OpenAI chat completions API, such as llama.cpp, vLLM or Ollama.
+            Saving an existing ID replaces it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">ID</label>
+              <input
+                value={form.id}
+                onChange={(e) => setForm({ ...form, id: e.target.value.toLowerCase() })}
+                placeholder="local-llama"
+                className="w-full p-2 border rounded-md"
+                data-testid="input-custom-id"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Display Name</label>
+              <input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Local Llama"
+                className="w-full p-2 border rounded-md"
+                data-testid="input-custom-name"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Base URL</label>
+              <input
+                value={form.baseURL}
+                onChange={(e) => setForm({ ...form, baseURL: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className="w-full p-2 border rounded-md"
+                data-testid="input-custom-base-url"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Model</label>
+              <input
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+                placeholder="llama3.2"
+                className="w-full p-2 border rounded-md"
+                data-testid="input-custom-model"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Embedding Model (optional)</label>
+              <input
+                value={form.embeddingModel}
+                onChange={(e) => setForm({ ...form, embeddingModel: e.target.value })}
+                placeholder="nomic-embed-text"
+                className="w-full p-2 border rounded-md"
+                data-testid="input-custom-embedding-model"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">API Key (optional)</label>
+              <input
+                type="password"
+                value={form.apiKey}
+                onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+                placeholder="Leave blank for local servers"
+                className="w-full p-2 border rounded-md"
+                data-testid="input-custom-api-key"
+              />
+            </div>
+          </div>
+
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!canSave || saveMutation.isPending}
+            data-testid="button-save-custom-provider"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Endpoint'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
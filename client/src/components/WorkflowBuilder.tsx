@@ -8,6 +8,7 @@ interface Node {
   y: number;
   title: string;
   provider?: string;
+  fallbackProviders?: string[];
   config?: {
     prompt?: string;
     temperature?: number;
@@ -523,6 +524,21 @@ export function WorkflowBuilder({ onExecute }: WorkflowBuilderProps = {}) {
                     </select>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium mb-1">Fallback Providers</label>
+                    <input
+                      type="text"
+                      value={(nodeBeingEdited.fallbackProviders || []).join(', ')}
+                      onChange={(e) => setNodeBeingEdited({
+                        ...nodeBeingEdited,
+                        fallbackProviders: e.target.value.split(',').map(id => id.trim()).filter(Boolean)
+                      })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+                      placeholder="e.g. anthropic, google"
+                    />
+                    <p className="text-xs text-slate-500 mt-1">Tried in order if the provider above fails</p>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium mb-1">Prompt Template</label>
                     <textarea
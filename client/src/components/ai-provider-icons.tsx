@@ -29,6 +29,8 @@ export function AIProviderIcon({ provider, className = "w-10 h-10", status = 'se
         return { favicon: '/favicons/llama.ico', initial: 'L', color: 'bg-blue-600' };
       case 'mistral':
         return { favicon: '/favicons/mistral.ico', initial: 'M', color: 'bg-red-600' };
+      case 'mock':
+        return { favicon: '', initial: '?', color: 'bg-slate-400' };
       default:
         return { favicon: '', initial: '?', color: 'bg-gray-500' };
     }
@@ -82,7 +84,8 @@ export function getProviderDisplayName(provider: string): string {
     perplexity: 'Perplexity™',
     deepseek: 'DeepSeek™',
     grok: 'Grok™',
-    llama: 'Llama™'
+    llama: 'Llama™',
+    mock: 'Mock (local)'
   };
   return names[provider] || provider;
 }
\ No newline at end of file
@@ -2,22 +2,32 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useQuery } from "@tanstack/react-query";
-import { getProviders } from "@/lib/api";
+import { getProviderModels, getProviders } from "@/lib/api";
 import type { AIProvider } from "@shared/schema";
 
 interface AISelectorProps {
   selectedAIs: string[];
   onSelectionChange: (selectedAIs: string[]) => void;
   onManageCredentials: () => void;
+  // Chosen model per provider id; the model picker is only shown when onModelChange is given
+  modelSelections?: Record<string, string>;
+  onModelChange?: (providerId: string, model: string) => void;
 }
 
-export default function AISelector({ selectedAIs, onSelectionChange, onManageCredentials }: AISelectorProps) {
+export default function AISelector({ selectedAIs, onSelectionChange, onManageCredentials, modelSelections = {}, onModelChange }: AISelectorProps) {
   const { data: providers = [], isLoading } = useQuery({
     queryKey: ['/api/providers'],
     queryFn: () => getProviders(),
   });
 
+  const { data: modelCatalog = [] } = useQuery({
+    queryKey: ['/api/providers/models'],
+    queryFn: () => getProviderModels(),
+    enabled: !!onModelChange,
+  });
+
   const handleSelectAll = () => {
     const connectedProviders = providers.filter(p => p.status === 'connected').map(p => p.id);
     onSelectionChange(connectedProviders);
@@ -120,6 +130,25 @@ export default function AISelector({ selectedAIs, onSelectionChange, onManageCre
                 </div>
                 <span className="text-sm text-slate-600">{provider.company}</span>
               </label>
+              {onModelChange && selectedAIs.includes(provider.id) && (() => {
+                const catalog = modelCatalog.find(entry => entry.id === provider.id);
+                if (!catalog || catalog.models.length === 0) return null;
+                return (
+                  <Select
+                    value={modelSelections[provider.id] || catalog.defaultModel}
+                    onValueChange={(model) => onModelChange(provider.id, model)}
+                  >
+                    <SelectTrigger className="mt-2 h-8 text-xs" data-testid={`select-model-${provider.id}`}>
+                      <SelectValue placeholder="Default model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {catalog.models.map(model => (
+                        <SelectItem key={model.id} value={model.id}>{model.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                );
+              })()}
             </div>
           ))}
         </div>
@@ -0,0 +1,100 @@
+import type { ClaimVerification, VerifiedClaim } from "@shared/schema";
+
+interface ClaimHighlightsProps {
+  content: string;
+  verification: ClaimVerification;
+}
+
+type Verdict = VerifiedClaim['verdict'];
+
+// Where claims overlap, the text takes the most serious verdict
+const SEVERITY: Verdict[] = ['supported', 'unverifiable', 'disputed', 'refuted'];
+
+const VERDICT_STYLES: Record<Verdict, string> = {
+  supported: 'bg-emerald-100 decoration-emerald-500',
+  unverifiable: 'bg-amber-100 decoration-amber-500',
+  disputed: 'bg-orange-200 decoration-orange-600',
+  refuted: 'bg-red-200 decoration-red-600 underline decoration-wavy',
+};
+
+const VERDICT_LABELS: Record<Verdict, string> = {
+  supported: 'Supported',
+  unverifiable: 'Unverifiable',
+  disputed: 'Disputed',
+  refuted: 'Refuted',
+};
+
+function describe(claim: VerifiedClaim): string {
+  const rulings = claim.verdicts.map(entry =>
+    `${entry.verifier}: ${entry.verdict}: ${entry.rationale}${entry.correction ? ` (actually: ${entry.correction})` : ''}`
+  );
+  return [`${VERDICT_LABELS[claim.verdict]}: ${claim.claim}`, ...rulings].join('\n');
+}
+
+// Cuts the content at every claim boundary, so each piece is covered by a fixed set of claims
+function splitByClaims(content: string, claims: VerifiedClaim[]): { text: string; claims: VerifiedClaim[] }[] {
+  const located = claims.filter(claim => claim.start !== null && claim.end !== null);
+  const cuts = Array.from(new Set([0, content.length, ...located.flatMap(claim => [claim.start!, claim.end!])])).sort((a, b) => a - b);
+  return cuts.slice(0, -1).map((start, index) => ({
+    text: content.slice(start, cuts[index + 1]),
+    claims: located.filter(claim => claim.start! <= start && claim.end! >= cuts[index + 1]),
+  }));
+}
+
+// The response text with every checked claim highlighted by its verdict, hover for the rationale,
+// followed by the claim list, including claims whose quote could not be found in the text
+export function ClaimHighlights({ content, verification }: ClaimHighlightsProps) {
+  const counts = SEVERITY.map(verdict => [verdict, verification.claims.filter(claim => claim.verdict === verdict).length] as const)
+    .filter(([, count]) => count > 0);
+
+  return (
+    <div data-testid="claim-highlights">
+      <div className="whitespace-pre-wrap">
+        {splitByClaims(content, verification.claims).map((piece, index) => {
+          if (piece.claims.length === 0) return <span key={index}>{piece.text}</span>;
+          const worst = piece.claims.reduce((a, b) => SEVERITY.indexOf(b.verdict) > SEVERITY.indexOf(a.verdict) ? b : a);
+          return (
+            <span
+              key={index}
+              className={`rounded-sm ${VERDICT_STYLES[worst.verdict]}`}
+              title={piece.claims.map(describe).join('\n\n')}
+              data-testid={`claim-span-${worst.index}`}
+            >
+              {piece.text}
+            </span>
+          );
+        })}
+      </div>
+
+      <details className="mt-3 text-xs text-slate-700" data-testid="claim-list">
+        <summary className="cursor-pointer font-semibold">
+          {verification.claims.length} claims checked by {verification.verifiers.join(', ')}
+          {counts.length > 0 && ': '}
+          {counts.map(([verdict, count]) => `${count} ${VERDICT_LABELS[verdict].toLowerCase()}`).join(', ')}
+        </summary>
+        {verification.failures.length > 0 && (
+          <div className="mt-1 text-red-600">
+            No verdicts from {verification.failures.map(failure => `${failure.verifier} (${failure.error})`).join(', ')}
+          </div>
+        )}
+        <ol className="mt-2 space-y-2 list-decimal pl-5">
+          {verification.claims.map(claim => (
+            <li key={claim.index} data-testid={`claim-${claim.index}`}>
+              <span className={`px-1 rounded-sm ${VERDICT_STYLES[claim.verdict]}`}>{VERDICT_LABELS[claim.verdict]}</span>{' '}
+              {claim.claim}
+              {claim.start === null && <span className="text-slate-400"> (quote not found in the response)</span>}
+              <ul className="mt-1 pl-3 text-slate-600">
+                {claim.verdicts.map(entry => (
+                  <li key={entry.verifier}>
+                    <strong>{entry.verifier}</strong>: {entry.verdict}. {entry.rationale}
+                    {entry.correction && <em> Actually: {entry.correction}</em>}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      </details>
+    </div>
+  );
+}
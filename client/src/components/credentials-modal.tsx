@@ -112,7 +112,8 @@ export default function CredentialsModal({ open, onClose }: CredentialsModalProp
       perplexity: '🔮',
       deepseek: '🔬',
       grok: '🚀',
-      llama: '🦙'
+      llama: '🦙',
+      mistral: '🌪️'
     };
     return icons[id] || '🤖';
   };
@@ -126,7 +127,8 @@ export default function CredentialsModal({ open, onClose }: CredentialsModalProp
       perplexity: 'bg-purple-500',
       deepseek: 'bg-indigo-500',
       grok: 'bg-red-500',
-      llama: 'bg-yellow-500'
+      llama: 'bg-yellow-500',
+      mistral: 'bg-red-600'
     };
     return colors[id] || 'bg-gray-500';
   };
@@ -140,7 +142,8 @@ export default function CredentialsModal({ open, onClose }: CredentialsModalProp
       perplexity: 'pplx-...',
       deepseek: 'sk-...',
       grok: 'xai-...',
-      llama: 'Not required'
+      llama: 'Not required',
+      mistral: 'Enter Mistral API key...'
     };
     return placeholders[id] || 'Enter API key...';
   };
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AIProviderIcon, getProviderDisplayName } from "@/components/ai-provider-icons";
+import { getLeaderboard } from "@/lib/api";
+import { QUERY_TYPES, type LeaderboardQuery } from "@shared/schema";
+
+interface LeaderboardProps {
+  authToken: string;
+}
+
+const QUERY_TYPE_LABELS: Record<string, string> = {
+  analytical: 'Analysis',
+  creative: 'Creative',
+  technical: 'Coding & technical',
+  strategic: 'Strategy',
+  research: 'Research',
+};
+
+// Provider (or model) ranking from awarded DIVE answers, filterable by the kind of question asked
+export function Leaderboard({ authToken }: LeaderboardProps) {
+  const [groupBy, setGroupBy] = useState<LeaderboardQuery['groupBy']>('provider');
+  const [queryType, setQueryType] = useState<LeaderboardQuery['queryType']>();
+  const [judging, setJudging] = useState<LeaderboardQuery['judging']>('all');
+
+  const { data: leaderboard, isLoading, error } = useQuery({
+    queryKey: ['/api/stats/leaderboard', groupBy, queryType, judging],
+    queryFn: () => getLeaderboard(authToken, { groupBy, queryType, judging }),
+    enabled: !!authToken,
+  });
+
+  return (
+    <div className="space-y-4" data-testid="leaderboard">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Trophy className="w-5 h-5" />
+          <h2 className="text-xl font-semibold">Leaderboard</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={queryType ?? ''}
+            onChange={(e) => setQueryType((e.target.value || undefined) as LeaderboardQuery['queryType'])}
+            className="border rounded px-2 py-1 text-sm"
+            data-testid="select-leaderboard-query-type"
+          >
+            <option value="">All questions</option>
+            {QUERY_TYPES.map(type => (
+              <option key={type} value={type}>
+                {QUERY_TYPE_LABELS[type]}{leaderboard?.queryTypes[type] ? ` (${leaderboard.queryTypes[type]})` : ''}
+              </option>
+            ))}
+          </select>
+          <select
+            value={judging}
+            onChange={(e) => setJudging(e.target.value as LeaderboardQuery['judging'])}
+            className="border rounded px-2 py-1 text-sm"
+            data-testid="select-leaderboard-judging"
+          >
+            <option value="all">All awards</option>
+            <option value="blind">Blind awards</option>
+            <option value="sighted">Sighted awards</option>
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setGroupBy(groupBy === 'provider' ? 'model' : 'provider')}
+            data-testid="button-leaderboard-group"
+          >
+            {groupBy === 'provider' ? 'By model' : 'By provider'}
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && <div className="text-sm text-gray-500">Loading leaderboard...</div>}
+      {error && <div className="text-sm text-red-600">Leaderboard failed: {(error as Error).message}</div>}
+
+      {leaderboard && (leaderboard.entries.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          No matches yet. Award two or more answers to the same DIVE question to rank providers.
+        </div>
+      ) : (
+        <>
+          <div className="text-sm text-gray-600">
+            {leaderboard.matches} matches from {leaderboard.dives} judged {leaderboard.dives === 1 ? 'question' : 'questions'}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-2">#</th>
+                <th className="py-2 pr-2">{groupBy === 'model' ? 'Model' : 'Provider'}</th>
+                <th className="py-2 pr-2 text-right" title="Bradley-Terry strength on the Elo scale">Rating</th>
+                <th className="py-2 pr-2 text-right" title="Sequential Elo, sensitive to judging order">Elo</th>
+                <th className="py-2 pr-2 text-right">W-L-D</th>
+                <th className="py-2 text-right">Awards</th>
+              </tr>
+            </thead>
+            <tbody>
+              {leaderboard.entries.map((entry, index) => (
+                <tr key={`${entry.provider}/${entry.model ?? ''}`} className="border-b last:border-0" data-testid={`leaderboard-row-${index}`}>
+                  <td className="py-2 pr-2 text-gray-500">{index + 1}</td>
+                  <td className="py-2 pr-2">
+                    <div className="flex items-center gap-2">
+                      <AIProviderIcon provider={entry.provider} className="w-6 h-6" status="connected" />
+                      <span className="font-medium">{getProviderDisplayName(entry.provider)}</span>
+                      {groupBy === 'model' && <span className="text-gray-500">{entry.model ?? 'unknown model'}</span>}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2 text-right font-semibold">{Math.round(entry.bradleyTerry)}</td>
+                  <td className="py-2 pr-2 text-right text-gray-600">{Math.round(entry.elo)}</td>
+                  <td className="py-2 pr-2 text-right">{entry.wins}-{entry.losses}-{entry.draws}</td>
+                  <td className="py-2 text-right text-gray-600">
+                    {['gold', 'silver', 'bronze'].map(award => entry.awards[award] ?? 0).join(' / ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { getProviderDisplayName } from "@/components/ai-provider-icons";
+import { getResponseDiff } from "@/lib/api";
+import type { DiffSegment, DiffSegmentStatus } from "@shared/schema";
+
+interface ResponseDiffProps {
+  conversationId: string;
+  authToken: string;
+  turnId?: string | null;
+}
+
+// Consecutive segments from the same paragraph of the answer, so the diff keeps its layout
+function groupByParagraph(segments: DiffSegment[]): DiffSegment[][] {
+  const groups: DiffSegment[][] = [];
+  for (const segment of segments) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].paragraph === segment.paragraph) last.push(segment);
+    else groups.push([segment]);
+  }
+  return groups;
+}
+
+const STATUS_STYLES: Record<DiffSegmentStatus, string> = {
+  shared: 'bg-emerald-50 text-slate-700',
+  partial: 'bg-amber-50 text-slate-800',
+  unique: 'bg-rose-100 text-slate-900 font-medium',
+};
+
+const STATUS_LABELS: Record<DiffSegmentStatus, string> = {
+  shared: 'Said by all',
+  partial: 'Said by some',
+  unique: 'Only this provider',
+};
+
+// Side-by-side comparison of the completed answers: each claim is shaded by how many other
+// providers made the same point, so what one provider alone said stands out
+export function ResponseDiff({ conversationId, authToken, turnId = null }: ResponseDiffProps) {
+  const [uniqueOnly, setUniqueOnly] = useState(false);
+
+  const { data: diff, isLoading, error } = useQuery({
+    queryKey: ['/api/conversations', conversationId, 'diff', turnId],
+    queryFn: () => getResponseDiff(conversationId, authToken, { turnId }),
+    enabled: !!authToken,
+    refetchOnWindowFocus: false, // Recomputed when the view is reopened, e.g. after more answers complete
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-slate-500 p-4" data-testid="diff-loading">Comparing responses...</div>;
+  }
+  if (error || !diff) {
+    return <div className="text-sm text-red-600 p-4" data-testid="diff-error">Comparison failed: {(error as Error)?.message}</div>;
+  }
+
+  const providerOf = (responseId: string) =>
+    getProviderDisplayName(diff.responses.find(response => response.responseId === responseId)?.aiProvider ?? responseId);
+
+  const describeMatches = (segment: DiffSegment) => segment.matches.length === 0
+    ? 'No other provider made this point'
+    : `Also said by ${segment.matches.map(match => `${providerOf(match.responseId)} (${Math.round(match.similarity * 100)}%)`).join(', ')}`;
+
+  return (
+    <div className="space-y-4" data-testid="response-diff">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-slate-600">
+          Compared by {diff.method === 'embedding' ? `meaning (${diff.model})` : 'wording'}
+          {diff.fallbackReason && <span className="ml-1 text-slate-400">· {diff.fallbackReason}</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          {(['shared', 'partial', 'unique'] as DiffSegmentStatus[]).map(status => (
+            <span key={status} className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[status]}`}>{STATUS_LABELS[status]}</span>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setUniqueOnly(!uniqueOnly)}
+            data-testid="button-diff-unique-only"
+          >
+            {uniqueOnly ? 'Show all claims' : 'Only what others missed'}
+          </Button>
+        </div>
+      </div>
+
+      {diff.agreement.length > 0 && (
+        <div className="flex flex-wrap gap-2" data-testid="diff-agreement">
+          {diff.agreement.map(pair => (
+            <Badge key={`${pair.a}-${pair.b}`} variant="outline" className="text-xs">
+              {providerOf(pair.a)} ↔ {providerOf(pair.b)}: {Math.round(pair.score * 100)}% overlap
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+        {diff.responses.map(response => (
+          <Card key={response.responseId} className="border-slate-200" data-testid={`diff-column-${response.responseId}`}>
+            <div className="border-b border-slate-200 p-3 flex items-center justify-between">
+              <h3 className="font-semibold text-slate-900">{getProviderDisplayName(response.aiProvider)}</h3>
+              <span className="text-xs text-slate-500">
+                {response.counts.unique} unique · {response.counts.partial} partial · {response.counts.shared} shared
+              </span>
+            </div>
+            <CardContent className="p-3 text-sm leading-relaxed">
+              {groupByParagraph(response.segments.filter(segment => !uniqueOnly || segment.status === 'unique')).map(paragraph => (
+                <p key={paragraph[0].index} className="mb-2 last:mb-0">
+                  {paragraph.map(segment => (
+                    <span
+                      key={segment.index}
+                      className={`rounded px-0.5 mr-1 ${STATUS_STYLES[segment.status]}`}
+                      title={describeMatches(segment)}
+                      data-testid={`diff-segment-${response.responseId}-${segment.index}`}
+                    >
+                      {segment.text}
+                    </span>
+                  ))}
+                </p>
+              ))}
+              {uniqueOnly && response.counts.unique === 0 && (
+                <p className="text-slate-400">Nothing here that the others did not also say.</p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,12 +4,14 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { SimpleDropdown, SimpleDropdownItem } from "@/components/simple-dropdown";
-import { Copy, MoreVertical, Search, UserCog, Reply, CheckCircle } from "lucide-react";
+import { Copy, MoreVertical, Search, UserCog, Reply, CheckCircle, EyeOff, Eye } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { humanizeResponse, factCheckResponse, generateReply } from "@/lib/api";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { humanizeResponse, factCheckResponse, generateReply, getBlindJudging, setBlindJudging, revealBlindJudging, awardResponse, rateResponse } from "@/lib/api";
 import { AIProviderIcon, getProviderDisplayName } from "@/components/ai-provider-icons";
 import { ResponseRating } from "@/components/response-rating";
+import { ResponseDiff } from "@/components/response-diff";
+import { AwardButton } from "@/components/award-button";
 import type { AIResponse } from "@shared/schema";
 
 interface ResponseGridProps {
@@ -17,13 +19,15 @@ interface ResponseGridProps {
   originalQuery?: string;
   onFactCheck?: (response: AIResponse) => void;
   onReply?: (response: AIResponse) => void;
+  conversationId?: string | null; // With authToken, enables the comparison view, awards and blind judging
+  authToken?: string | null;
 }
 
 interface ResponseWithRating extends AIResponse {
   userRating?: string;
 }
 
-export default function ResponseGrid({ responses, originalQuery, onFactCheck, onReply }: ResponseGridProps) {
+export default function ResponseGrid({ responses, originalQuery, onFactCheck, onReply, conversationId, authToken }: ResponseGridProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [factCheckModalOpen, setFactCheckModalOpen] = useState(false);
@@ -32,6 +36,51 @@ export default function ResponseGrid({ responses, originalQuery, onFactCheck, on
   const [modalContent, setModalContent] = useState("");
   const [selectedResponse, setSelectedResponse] = useState<AIResponse | null>(null);
   const [responseRatings, setResponseRatings] = useState<Record<string, string>>({});
+  const [showDiff, setShowDiff] = useState(false);
+  const [awards, setAwards] = useState<Record<string, string | null>>({});
+
+  const blindKey = ['/api/conversations', conversationId, 'blind-judging'];
+  const { data: blindJudging } = useQuery({
+    queryKey: blindKey,
+    queryFn: () => getBlindJudging(conversationId!, authToken!),
+    enabled: !!conversationId && !!authToken,
+  });
+  // Labels hide the provider until judging is revealed; answers that arrived after blind judging started have none yet
+  const blind = !!blindJudging?.enabled && !blindJudging.revealedAt;
+  const blindLabel = (response: AIResponse) => blindJudging?.enabled ? blindJudging.labels[response.id] : undefined;
+
+  const blindMutation = useMutation({
+    mutationFn: (action: 'start' | 'stop' | 'reveal') => action === 'reveal'
+      ? revealBlindJudging(conversationId!, authToken!)
+      : setBlindJudging(conversationId!, authToken!, action === 'start'),
+    onSuccess: (status) => {
+      queryClient.setQueryData(blindKey, status);
+      if (status.enabled && !status.revealedAt) setShowDiff(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Blind Judging",
+        description: error.message || "Failed to update blind judging",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const awardMutation = useMutation({
+    mutationFn: ({ responseId, award }: { responseId: string; award: string | null }) => awardResponse(responseId, authToken!, award),
+    onSuccess: (_, { responseId, award }) => {
+      setAwards(prev => ({ ...prev, [responseId]: award }));
+      queryClient.invalidateQueries({ queryKey: blindKey }); // An award can make reveal possible
+      queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save award",
+        variant: "destructive",
+      });
+    },
+  });
 
   const humanizeMutation = useMutation({
     mutationFn: (responseText: string) => humanizeResponse(responseText),
@@ -171,6 +220,15 @@ export default function ResponseGrid({ responses, originalQuery, onFactCheck, on
     }
   };
 
+  const currentAward = (response: AIResponse) => response.id in awards ? awards[response.id] : response.award ?? null;
+
+  // The label while judging blind, the label and provider once revealed
+  const displayName = (response: AIResponse) => {
+    const label = blindLabel(response);
+    if (!label) return getProviderDisplayName(response.aiProvider);
+    return blind ? label : `${label} · ${getProviderDisplayName(response.aiProvider)}`;
+  };
+
   const formatTimestamp = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -198,25 +256,87 @@ export default function ResponseGrid({ responses, originalQuery, onFactCheck, on
     );
   }
 
+  // While blind, only labelled answers in label order, so neither position nor provider gives them away
+  const visibleResponses = blind
+    ? responses.filter(r => blindLabel(r)).sort((a, b) => blindLabel(a)!.localeCompare(blindLabel(b)!, undefined, { numeric: true }))
+    : responses;
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-varsity-bold text-slate-900">AI Responses</h2>
-        <div className="text-sm text-slate-600">
-          {responses.filter(r => r.status === 'complete').length} of {responses.length} complete
+        <div className="flex items-center gap-3">
+          <div className="text-sm text-slate-600">
+            {responses.filter(r => r.status === 'complete').length} of {responses.length} complete
+          </div>
+          {conversationId && authToken && blindJudging && (blind ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => blindMutation.mutate('stop')}
+                disabled={blindMutation.isPending}
+                data-testid="button-stop-blind"
+              >
+                Stop Blind
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => blindMutation.mutate('reveal')}
+                disabled={!blindJudging.canReveal || blindMutation.isPending}
+                title={blindJudging.canReveal ? 'Show which provider wrote each answer' : 'Award at least one answer first'}
+                data-testid="button-reveal-blind"
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                Reveal
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => blindMutation.mutate('start')}
+              disabled={blindMutation.isPending || responses.length === 0}
+              data-testid="button-start-blind"
+            >
+              <EyeOff className="h-4 w-4 mr-2" />
+              Judge Blind
+            </Button>
+          ))}
+          {conversationId && authToken && !blind && responses.filter(r => r.status === 'complete').length >= 2 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowDiff(!showDiff)}
+              data-testid="button-toggle-diff"
+            >
+              {showDiff ? 'Show Answers' : 'Compare'}
+            </Button>
+          )}
         </div>
       </div>
+
+      {showDiff && conversationId && authToken && (
+        <ResponseDiff conversationId={conversationId} authToken={authToken} />
+      )}
       
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {responses.map((response) => (
+      <div className={showDiff ? 'hidden' : 'grid grid-cols-1 lg:grid-cols-2 gap-6'}>
+        {visibleResponses.map((response) => (
           <Card key={response.id} className="border-slate-200 hover:shadow-md transition-shadow" data-testid={`card-response-${response.id}`}>
             <div className="border-b border-slate-200 p-4">
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-3">
-                  <AIProviderIcon provider={response.aiProvider} className="w-10 h-10" status="connected" />
+                  {blind ? (
+                    <div className="w-10 h-10 rounded-full bg-slate-400 text-white flex items-center justify-center font-semibold" data-testid={`icon-blind-${response.id}`}>
+                      {blindLabel(response)!.replace('Swimmer ', '')}
+                    </div>
+                  ) : (
+                    <AIProviderIcon provider={response.aiProvider} className="w-10 h-10" status="connected" />
+                  )}
                   <div>
                     <h3 className="font-semibold text-slate-900" data-testid={`text-provider-name-${response.id}`}>
-                      {getProviderDisplayName(response.aiProvider)}
+                      {displayName(response)}
                     </h3>
                     <p className="text-sm text-slate-500" data-testid={`text-timestamp-${response.id}`}>
                       {formatTimestamp(response.timestamp)}
@@ -297,11 +417,31 @@ export default function ResponseGrid({ responses, originalQuery, onFactCheck, on
                 </div>
                 <ResponseRating 
                   responseId={response.id}
-                  currentRating={responseRatings[response.id]}
-                  onRatingChange={(id, rating) => 
-                    setResponseRatings(prev => ({ ...prev, [id]: rating }))
-                  }
+                  currentRating={responseRatings[response.id] ?? response.rating ?? undefined}
+                  onRatingChange={(id, rating) => {
+                    setResponseRatings(prev => ({ ...prev, [id]: rating }));
+                    if (conversationId && authToken) {
+                      rateResponse(id, authToken, (rating || null) as 'positive' | 'negative' | null).catch(console.error);
+                    }
+                  }}
                 />
+                {conversationId && authToken && (
+                  <div className="flex flex-wrap items-center mt-2" data-testid={`awards-${response.id}`}>
+                    {(['gold', 'silver', 'bronze', 'titanic'] as const).map(award => (
+                      <AwardButton
+                        key={award}
+                        responseId={response.id}
+                        awardType={award}
+                        onAward={(id, type) => awardMutation.mutate({ responseId: id, award: currentAward(response) === type ? null : type })}
+                      />
+                    ))}
+                    {currentAward(response) && (
+                      <Badge variant="secondary" className="ml-2" data-testid={`badge-award-${response.id}`}>
+                        {currentAward(response)!.toUpperCase()}
+                      </Badge>
+                    )}
+                  </div>
+                )}
               </>
             )}
             
@@ -362,7 +502,7 @@ export default function ResponseGrid({ responses, originalQuery, onFactCheck, on
           </DialogHeader>
           <div className="mt-4">
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
-              <h4 className="font-semibold text-blue-900 mb-2">Original Response from {selectedResponse ? getProviderDisplayName(selectedResponse.aiProvider) : 'AI'}:</h4>
+              <h4 className="font-semibold text-blue-900 mb-2">Original Response from {selectedResponse ? displayName(selectedResponse) : 'AI'}:</h4>
               <p className="text-blue-800">{selectedResponse?.content}</p>
             </div>
             <div className="prose prose-sm max-w-none">
@@ -387,7 +527,7 @@ export default function ResponseGrid({ responses, originalQuery, onFactCheck, on
           </DialogHeader>
           <div className="mt-4">
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4">
-              <h4 className="font-semibold text-gray-900 mb-2">Response from {selectedResponse ? getProviderDisplayName(selectedResponse.aiProvider) : 'AI'}:</h4>
+              <h4 className="font-semibold text-gray-900 mb-2">Response from {selectedResponse ? displayName(selectedResponse) : 'AI'}:</h4>
               <p className="text-gray-800 text-sm">{selectedResponse?.content?.substring(0, 200)}...</p>
             </div>
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
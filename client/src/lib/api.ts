@@ -1,5 +1,5 @@
 import { apiRequest } from "./queryClient";
-import type { AIProvider, QueryRequest, AIResponse, Credentials } from "@shared/schema";
+import type { AIProvider, QueryRequest, AIResponse, CacheOptions, Credentials, JudgeScores, Leaderboard, LeaderboardQuery, ProviderModelCatalog, ProviderOptions, ResponseDiff, ResponseDiffRequest } from "@shared/schema";
 
 export async function getProviders(userId?: string): Promise<AIProvider[]> {
   const response = await fetch(`/api/providers?userId=${userId || 'default-user'}`);
@@ -7,6 +7,47 @@ export async function getProviders(userId?: string): Promise<AIProvider[]> {
   return response.json();
 }
 
+// Pass the auth token to include the signed-in user's custom endpoints
+export async function getProviderModels(authToken?: string): Promise<ProviderModelCatalog[]> {
+  const response = await fetch('/api/providers/models', {
+    headers: authToken ? { 'Authorization': `Bearer ${authToken}` } : {}
+  });
+  if (!response.ok) throw new Error('Failed to fetch provider models');
+  return response.json();
+}
+
+export interface ProviderHealthSample {
+  status: 'connected' | 'setup_required' | 'error';
+  checkedAt: string;
+  latencyMs: number | null;
+  error?: string;
+}
+
+export interface ProviderHealthEntry extends ProviderHealthSample {
+  providerId: string;
+  circuit: 'closed' | 'open' | 'half_open';
+  history: ProviderHealthSample[];
+}
+
+export async function getProviderHealth(authToken: string): Promise<ProviderHealthEntry[]> {
+  const response = await fetch('/api/providers/health', {
+    headers: { 'Authorization': `Bearer ${authToken}` }
+  });
+  if (!response.ok) throw new Error('Failed to fetch provider health');
+  return response.json();
+}
+
+// Re-test one provider, or all of them when providerId is omitted
+export async function recheckProviderHealth(authToken: string, providerId?: string): Promise<ProviderHealthEntry[]> {
+  const response = await fetch('/api/providers/health/check', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${authToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(providerId ? { providerId } : {})
+  });
+  if (!response.ok) throw new Error('Failed to re-test providers');
+  return response.json();
+}
+
 export async function testConnection(provider: string, apiKey: string): Promise<{ success: boolean; error?: string }> {
   const response = await apiRequest('POST', '/api/credentials/test', { provider, apiKey });
   return response.json();
@@ -75,3 +116,203 @@ export async function testProviderConnection(providerId: string, userId?: string
   });
   return response.json();
 }
+
+// Claim-level comparison of the completed answers to the original query or to one follow-up turn
+export async function getResponseDiff(conversationId: string, authToken: string, request: ResponseDiffRequest = {}): Promise<ResponseDiff> {
+  const response = await fetch(`/api/conversations/${conversationId}/diff`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${authToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.message || 'Failed to compare responses');
+  }
+  return response.json();
+}
+
+export interface BlindJudgingStatus {
+  enabled: boolean;
+  labels: Record<string, string>; // Response id to label
+  startedAt: string | null;
+  revealedAt: string | null;
+  canReveal: boolean;
+  identities: Record<string, string> | null; // Response id to provider, once revealed
+}
+
+async function blindJudgingRequest(url: string, authToken: string, body?: unknown): Promise<BlindJudgingStatus> {
+  const response = await fetch(url, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: { 'Authorization': `Bearer ${authToken}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.message || 'Blind judging request failed');
+  }
+  return response.json();
+}
+
+export function getBlindJudging(conversationId: string, authToken: string): Promise<BlindJudgingStatus> {
+  return blindJudgingRequest(`/api/conversations/${conversationId}/blind-judging`, authToken);
+}
+
+export function setBlindJudging(conversationId: string, authToken: string, enabled: boolean): Promise<BlindJudgingStatus> {
+  return blindJudgingRequest(`/api/conversations/${conversationId}/blind-judging`, authToken, { enabled });
+}
+
+export function revealBlindJudging(conversationId: string, authToken: string): Promise<BlindJudgingStatus> {
+  return blindJudgingRequest(`/api/conversations/${conversationId}/blind-judging/reveal`, authToken, {});
+}
+
+// null takes the award back
+export async function awardResponse(responseId: string, authToken: string, award: string | null): Promise<void> {
+  const response = await fetch(`/api/responses/${responseId}/award`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${authToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ award })
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.message || 'Failed to save award');
+  }
+}
+
+// One LLM judging run of a conversation, as returned by /api/conversations/:id/judge
+export interface JudgeRun {
+  runId: string;
+  judgeProvider: string;
+  judgeModel: string | null;
+  turnId: string | null;
+  createdAt: string | null;
+  costUsd?: number | null; // Only on the run just made
+  verdicts: {
+    id: string;
+    responseId: string;
+    award: string | null; // gold, silver, bronze, titanic; null for no medal
+    scores: JudgeScores;
+    total: number;
+    justification: string;
+  }[];
+}
+
+// null clears the rating
+export async function rateResponse(responseId: string, authToken: string, rating: 'positive' | 'negative' | null): Promise<void> {
+  const response = await fetch(`/api/responses/${responseId}/rating`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${authToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rating })
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.message || 'Failed to save rating');
+  }
+}
+
+export async function getLeaderboard(authToken: string, query: Partial<LeaderboardQuery> = {}): Promise<Leaderboard> {
+  const params = new URLSearchParams(Object.entries(query).filter(([, value]) => value) as [string, string][]);
+  const response = await fetch(`/api/stats/leaderboard?${params}`, {
+    headers: { 'Authorization': `Bearer ${authToken}` }
+  });
+  if (!response.ok) {
+    const result = await response.json().catch(() => ({}));
+    throw new Error(result.message || 'Failed to load leaderboard');
+  }
+  return response.json();
+}
+
+// A built-in tool run by the server while a provider answered (responses.metadata.toolCalls)
+export interface ToolCallRecord {
+  round: number;
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+// hit: served from the response cache without a provider call (responses.metadata.cache)
+export interface ResponseCacheInfo {
+  hit: boolean;
+  key: string;
+  cachedAt: string;
+  expiresAt: string;
+  deduplicated?: boolean;
+}
+
+export interface QueryStreamHandlers {
+  onStart?: (data: { conversationId: string; responses: AIResponse[] }) => void;
+  onDelta?: (data: { responseId: string; aiProvider: string; delta: string }) => void;
+  onComplete?: (data: {
+    responseId: string;
+    aiProvider: string;
+    content: string;
+    responseTimeMs?: string;
+    inputTokens?: number | null;
+    outputTokens?: number | null;
+    costUsd?: number | null;
+    toolCalls?: ToolCallRecord[]; // Empty unless tools were enabled
+    cache?: ResponseCacheInfo | null; // Set when the request opted in to the response cache
+  }) => void;
+  onError?: (data: { responseId?: string; aiProvider?: string; error: string }) => void;
+  onCancelled?: (data: { responseId: string; aiProvider: string }) => void;
+  // Position while waiting for a rate-limit slot; null once the provider call starts
+  onQueued?: (data: { responseId: string; aiProvider: string; position: number | null }) => void;
+}
+
+// DIVE over Server-Sent Events. EventSource cannot POST or send auth headers, so the stream is read from fetch.
+export async function streamQuery(
+  request: { query: string; selectedAIs: string[]; attachedFiles?: any[]; providerOptions?: ProviderOptions; enableTools?: boolean; cache?: CacheOptions },
+  authToken: string,
+  handlers: QueryStreamHandlers
+): Promise<void> {
+  const response = await fetch('/api/query/stream', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${authToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (rawEvent: string) => {
+    let event = 'message';
+    let data = '';
+    for (const line of rawEvent.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data += line.slice(5).trim();
+    }
+    if (!data) return;
+
+    const payload = JSON.parse(data);
+    switch (event) {
+      case 'start': handlers.onStart?.(payload); break;
+      case 'delta': handlers.onDelta?.(payload); break;
+      case 'complete': handlers.onComplete?.(payload); break;
+      case 'error': handlers.onError?.(payload); break;
+      case 'cancelled': handlers.onCancelled?.(payload); break;
+      case 'queued': handlers.onQueued?.(payload); break;
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
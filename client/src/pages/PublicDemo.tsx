@@ -501,6 +501,10 @@ export function PublicDemo() {
               user management, and advanced AI orchestration capabilities.
             </p>
           </div>
+          <p style={{ fontSize: '14px', lineHeight: '1.5', maxWidth: '600px', margin: '20px auto 0 auto', opacity: 0.85 }}>
+            No API keys? Sign in as the demo user and select the <strong>Mock</strong> provider to run DIVE, TURN and WORK
+            end to end. Its models simulate slow, failing, flaky and malformed responses.
+          </p>
         </section>
       </main>
 
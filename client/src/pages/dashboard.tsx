@@ -3,7 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { getConversationResponses, submitQuery } from "@/lib/api";
 import { getProviderDisplayName, AIProviderIcon } from "@/components/ai-provider-icons";
-import { createTruthfulnessPrompt } from "@/components/truthfulness-standards";
+import { createTruthfulnessPrompt } from "@shared/truthfulness-standards";
 import { HelpContent } from "@/components/help-content";
 import QueryInput from "@/components/query-input";
 import ResponseGrid from "@/components/response-grid";
@@ -806,6 +806,8 @@ This is the final stage of the work - make it count!`;
                         originalQuery={currentQuery}
                         onFactCheck={handleFactCheck}
                         onReply={handleReply}
+                        conversationId={currentConversationId}
+                        authToken={localStorage.getItem('authToken')}
                       />
                     </div>
                   )}
@@ -1,9 +1,14 @@
 import React, { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
+import { getProviderModels, getProviderHealth, recheckProviderHealth, streamQuery, type JudgeRun } from "@/lib/api";
 import { AuthForm } from "@/components/AuthForm";
 import { StandardFileUpload } from "@/components/StandardFileUpload";
 import { CloudStorageSettings } from "@/components/CloudStorageSettings";
+import { CustomProviderSettings } from "@/components/CustomProviderSettings";
+import { ResponseDiff } from "@/components/response-diff";
+import { Leaderboard } from "@/components/leaderboard";
+import { ClaimHighlights } from "@/components/claim-highlights";
 import { AdminPanel } from "@/components/AdminPanel";
 import { WorkflowBuilder } from "@/components/WorkflowBuilder";
 import { Download, FileText, Upload, Play, GitBranch, Users, BarChart3, Settings, Menu, X, Activity, Shield, ThumbsUp, ThumbsDown, Trash2, CheckCircle, AlertTriangle } from "lucide-react";
@@ -16,7 +21,7 @@ interface AIProvider {
   id: string;
   name: string;
   company: string;
-  status: 'connected' | 'setup_required' | 'error' | 'disabled';
+  status: 'connected' | 'setup_required' | 'error' | 'disabled' | 'degraded';
   requiresApiKey: boolean;
 }
 
@@ -24,11 +29,15 @@ interface AIResponse {
   id: string;
   aiProvider: string;
   content: string;
-  status: 'pending' | 'complete' | 'error';
+  status: 'pending' | 'complete' | 'error' | 'cancelled';
   responseTime?: number;
-  rating?: 'positive' | 'negative';
+  rating?: 'positive' | 'negative' | null;
   ratingSaved?: boolean;
   metadata?: any;
+  turnId?: string | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  costUsd?: number | null;
 }
 
 interface QueryRequest {
@@ -36,6 +45,10 @@ interface QueryRequest {
   selectedAIs: string[];
   mode: 'dive' | 'turn' | 'work';
   attachedFiles?: any[];
+  providerOptions?: Record<string, { model?: string }>;
+  enableTools?: boolean;
+  cache?: { ttlSeconds?: number; bypass?: boolean };
+  fallbackProviders?: string[];
 }
 
 interface WorkflowStep {
@@ -43,7 +56,7 @@ interface WorkflowStep {
   assignedAI: string;
   objective: string;
   completed: boolean;
-  status: 'pending' | 'complete' | 'error';
+  status: 'pending' | 'complete' | 'error' | 'cancelled';
 }
 
 interface WorkflowStatus {
@@ -71,6 +84,18 @@ export default function SwimMeetFixed() {
   const [selectedVerifier, setSelectedVerifier] = useState<string>("anthropic");
   const [attachedFiles, setAttachedFiles] = useState<any[]>([]);
   const [isQuerying, setIsQuerying] = useState(false);
+  const [isRetestingProviders, setIsRetestingProviders] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [followUpQuery, setFollowUpQuery] = useState("");
+  const [followUpTarget, setFollowUpTarget] = useState<string | null>(null);
+  const [modelSelections, setModelSelections] = useState<Record<string, string>>({});
+  const [enableTools, setEnableTools] = useState(false);
+  const [useCache, setUseCache] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+  const [judgeRun, setJudgeRun] = useState<JudgeRun | null>(null);
+  const [isJudging, setIsJudging] = useState(false);
+  const [checkingClaims, setCheckingClaims] = useState<string | null>(null); // Response whose claims are being verified
+  const [useWorkFallbacks, setUseWorkFallbacks] = useState(true);
   const [showPerformanceOverlay, setShowPerformanceOverlay] = useState(false);
   const [showAdminPanel, setShowAdminPanel] = useState(false);
   const [showWorkflowBuilder, setShowWorkflowBuilder] = useState(false);
@@ -168,6 +193,20 @@ export default function SwimMeetFixed() {
     staleTime: 240000,
   });
 
+  const { data: modelCatalog = [] } = useQuery({
+    queryKey: ['/api/providers/models'],
+    queryFn: () => getProviderModels(authToken!),
+    enabled: !!authToken,
+    staleTime: Infinity,
+  });
+
+  const { data: providerHealth = [] } = useQuery({
+    queryKey: ['/api/providers/health'],
+    queryFn: () => getProviderHealth(authToken!),
+    enabled: !!authToken,
+    refetchInterval: 300000,
+  });
+
   const { data: providerStats = {} } = useQuery<Record<string, any>>({
     queryKey: ['/api/stats'],
     enabled: !!authToken,
@@ -185,6 +224,40 @@ export default function SwimMeetFixed() {
   const queryMutation = useMutation({
     mutationFn: async (queryRequest: QueryRequest) => {
       setIsQuerying(true);
+
+      // DIVE streams token deltas so the race is visible as it happens
+      if (queryRequest.mode === 'dive' && authToken) {
+        setIsStreaming(true);
+        try {
+          await streamQuery({ ...queryRequest, attachedFiles }, authToken, {
+            onStart: (data) => {
+              setResponses(data.responses);
+              setConversationId(data.conversationId);
+            },
+            onQueued: ({ responseId, position }) => {
+              setResponses(prev => prev.map(r => r.id === responseId ? { ...r, metadata: { ...r.metadata, queuePosition: position } } : r));
+            },
+            onDelta: ({ responseId, delta }) => {
+              setResponses(prev => prev.map(r => r.id === responseId ? { ...r, content: r.content + delta } : r));
+            },
+            onComplete: ({ responseId, content, inputTokens, outputTokens, costUsd, toolCalls, cache }) => {
+              setResponses(prev => prev.map(r => r.id === responseId
+                ? { ...r, content, status: 'complete', inputTokens, outputTokens, costUsd, metadata: { ...r.metadata, toolCalls, cache } }
+                : r));
+            },
+            onError: ({ responseId, error }) => {
+              setResponses(prev => prev.map(r => r.id === responseId ? { ...r, content: error, status: 'error' } : r));
+            },
+            onCancelled: ({ responseId }) => {
+              setResponses(prev => prev.map(r => r.id === responseId ? { ...r, content: 'Cancelled by user', status: 'cancelled' } : r));
+            },
+          });
+        } finally {
+          setIsStreaming(false);
+        }
+        return null;
+      }
+
       const response = await makeAuthenticatedRequest('/api/query', {
         method: 'POST',
         body: JSON.stringify({
@@ -195,8 +268,10 @@ export default function SwimMeetFixed() {
       return response.json();
     },
     onSuccess: (data) => {
-      setResponses(data.responses || []);
-      setConversationId(data.conversationId);
+      if (data) {
+        setResponses(data.responses || []);
+        setConversationId(data.conversationId);
+      }
       setIsQuerying(false);
     },
     onError: () => {
@@ -208,7 +283,7 @@ export default function SwimMeetFixed() {
   const { data: conversationResponses } = useQuery<AIResponse[]>({
     queryKey: [`/api/conversations/${conversationId}/responses`],
     queryFn: () => makeAuthenticatedRequest(`/api/conversations/${conversationId}/responses`).then(res => res.json()),
-    enabled: !!authToken && !!conversationId,
+    enabled: !!authToken && !!conversationId && !isStreaming,
     refetchInterval: 2000, // Poll every 2 seconds
     staleTime: 0, // Always consider stale to fetch fresh data
   });
@@ -268,6 +343,15 @@ export default function SwimMeetFixed() {
     );
   };
 
+  // Only providers with an explicit model choice are sent; the rest use their default model
+  const buildProviderOptions = (providerIds: string[]) => {
+    const options: Record<string, { model?: string }> = {};
+    providerIds.forEach(id => {
+      if (modelSelections[id]) options[id] = { model: modelSelections[id] };
+    });
+    return options;
+  };
+
   const handleSubmitQuery = () => {
     if (!query.trim() || selectedAIs.length === 0) return;
     
@@ -275,7 +359,12 @@ export default function SwimMeetFixed() {
       query: query.trim(),
       selectedAIs,
       mode,
-      attachedFiles
+      attachedFiles,
+      providerOptions: buildProviderOptions(selectedAIs),
+      enableTools,
+      cache: useCache ? {} : undefined,
+      // Selection order is the fallback order; each step skips its own provider
+      fallbackProviders: mode === 'work' && useWorkFallbacks ? selectedAIs : undefined
     });
   };
 
@@ -360,6 +449,8 @@ export default function SwimMeetFixed() {
     setResponses([]);
     setAttachedFiles([]);
     setConversationId(null);
+    setFollowUpQuery('');
+    setFollowUpTarget(null);
     console.log('✓ Content cleared - ready for new query');
   };
 
@@ -372,17 +463,139 @@ export default function SwimMeetFixed() {
     );
     
     // Save to backend (using existing mutation)
-    fetch(`/api/responses/${responseId}/rating`, {
+    makeAuthenticatedRequest(`/api/responses/${responseId}/rating`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ rating })
-    }).then(() => {
+    }).then(res => {
+      if (!res.ok) throw new Error(`Rating failed: ${res.status}`);
       setResponses(prev => 
         prev.map(r => r.id === responseId ? { ...r, ratingSaved: true } : r)
       );
     }).catch(console.error);
   };
 
+  // Re-test handler - refreshes the cached provider health checks immediately
+  const handleRetestProviders = async () => {
+    setIsRetestingProviders(true);
+    try {
+      const health = await recheckProviderHealth(authToken!);
+      queryClient.setQueryData(['/api/providers/health'], health);
+      queryClient.invalidateQueries({ queryKey: ['/api/providers'] });
+    } catch (error: any) {
+      alert(`Re-test failed: ${error.message}`);
+    } finally {
+      setIsRetestingProviders(false);
+    }
+  };
+
+  // Stop handler - aborts in-flight provider calls and the rest of a WORK run
+  const handleCancel = async () => {
+    if (!conversationId) return;
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/conversations/${conversationId}/cancel`, {
+        method: 'POST'
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setResponses(prev => prev.map(r =>
+          result.cancelledResponseIds.includes(r.id) ? { ...r, content: 'Cancelled by user', status: 'cancelled' } : r
+        ));
+        queryClient.invalidateQueries({ queryKey: [`/api/conversations/${conversationId}/workflow`] });
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        alert(`Cancel failed: ${errorData.message || response.statusText}`);
+      }
+    } catch (error: any) {
+      alert(`Cancel failed: ${error.message}`);
+    }
+  };
+
+  // Follow-up handler - each provider answers with its own earlier exchanges as context
+  const handleFollowUp = async () => {
+    if (!conversationId || !followUpQuery.trim()) return;
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/conversations/${conversationId}/follow-up`, {
+        method: 'POST',
+        body: JSON.stringify({
+          query: followUpQuery.trim(),
+          selectedAIs: followUpTarget ? [followUpTarget] : undefined,
+          providerOptions: buildProviderOptions(followUpTarget ? [followUpTarget] : responses.map(r => r.aiProvider)),
+          cache: useCache ? {} : undefined
+        })
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setResponses(prev => [...prev, ...result.responses]);
+        setFollowUpQuery('');
+        setFollowUpTarget(null);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        alert(`Follow-up failed: ${errorData.message || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Follow-up error:', error);
+      alert('Follow-up failed due to network error');
+    }
+  };
+
+  // Merge the completed answers to the original query into one synthesis response
+  const handleSynthesize = async () => {
+    if (!conversationId) return;
+
+    try {
+      const response = await makeAuthenticatedRequest(`/api/conversations/${conversationId}/synthesize`, {
+        method: 'POST',
+        body: JSON.stringify({
+          synthesizerAI: selectedVerifier || 'anthropic',
+          cache: useCache ? {} : undefined
+        })
+      });
+
+      if (response.ok) {
+        const synthesis = await response.json();
+        setResponses(prev => [...prev, synthesis]);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        alert(`Synthesis failed: ${errorData.message || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Synthesis error:', error);
+      alert('Synthesis failed due to network error');
+    }
+  };
+
+  // Have the verifier score the answers to the original query and propose medals; human awards are untouched
+  const handleJudge = async () => {
+    if (!conversationId) return;
+
+    setIsJudging(true);
+    try {
+      const response = await makeAuthenticatedRequest(`/api/conversations/${conversationId}/judge`, {
+        method: 'POST',
+        body: JSON.stringify({
+          judgeAI: selectedVerifier || 'anthropic',
+          cache: useCache ? {} : undefined
+        })
+      });
+
+      if (response.ok) {
+        setJudgeRun(await response.json());
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        alert(`Judging failed: ${errorData.message || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Judge error:', error);
+      alert('Judging failed due to network error');
+    } finally {
+      setIsJudging(false);
+    }
+  };
+
   // TURN validation handler - enhanced for all modes
   const handleTurnValidation = async (responseId: string) => {
     try {
@@ -435,6 +648,33 @@ export default function SwimMeetFixed() {
     }
   };
 
+  // Verify a response claim by claim; the verdicts are highlighted in the response text
+  const handleVerifyClaims = async (responseId: string) => {
+    setCheckingClaims(responseId);
+    try {
+      const response = await makeAuthenticatedRequest(`/api/responses/${responseId}/verify-claims`, {
+        method: 'POST',
+        body: JSON.stringify({
+          verifiers: [selectedVerifier || 'anthropic'],
+          cache: useCache ? {} : undefined
+        })
+      });
+
+      if (response.ok) {
+        const result = await response.json();
+        setResponses(prev => prev.map(r => r.id === responseId ? { ...r, metadata: result.responseMetadata } : r));
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        alert(`Claim verification failed: ${errorData.message || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Claim verification error:', error);
+      alert('Claim verification failed due to network error');
+    } finally {
+      setCheckingClaims(null);
+    }
+  };
+
   // Handle custom workflow execution
   const handleCustomWorkflowExecution = async (workflow: any) => {
     try {
@@ -705,6 +945,13 @@ export default function SwimMeetFixed() {
         </section>
       )}
 
+      {/* Elo / Bradley-Terry ranking from awarded DIVE answers */}
+      {showStats && authToken && (
+        <section className="glass-panel-large swim-section">
+          <Leaderboard authToken={authToken} />
+        </section>
+      )}
+
       {/* Modernist Cloud Storage Settings Panel */}
       {showSettings && (
         <section className="glass-panel-large swim-section">
@@ -712,6 +959,13 @@ export default function SwimMeetFixed() {
         </section>
       )}
 
+      {/* Custom OpenAI-compatible endpoints (local models) */}
+      {showSettings && (
+        <section className="glass-panel-large swim-section">
+          <CustomProviderSettings authToken={authToken} />
+        </section>
+      )}
+
       {/* Modernist Mode Selection - Distinctly Styled Panels */}
       <section className="swim-section">
         <h3 className="swim-subtitle">Workflow Mode</h3>
@@ -807,7 +1061,19 @@ export default function SwimMeetFixed() {
         {/* AI Provider Selection with mode-specific explanation */}
         {(mode !== 'work' || workflowMode === 'preset') && (
           <section className="swim-section">
-            <h3 className="panel-heading">Select AI Providers</h3>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <h3 className="panel-heading">Select AI Providers</h3>
+              <button
+                onClick={handleRetestProviders}
+                disabled={isRetestingProviders}
+                data-testid="button-retest-providers"
+                className="swim-button swim-button--secondary"
+                title="Check every provider now instead of waiting for the next scheduled check"
+              >
+                <Activity size={14} style={{ marginRight: '4px' }} />
+                {isRetestingProviders ? 'Testing...' : 'Re-test now'}
+              </button>
+            </div>
             {mode === 'dive' && (
               <div className="mode-explanation dive-explanation">
                 <strong>DIVE Mode:</strong> <em>Choose as many AI competitors as you like. Each AI will respond simultaneously to your query, giving you multiple perspectives at once.</em>
@@ -830,6 +1096,10 @@ export default function SwimMeetFixed() {
           <div className="provider-grid">
             {providers.map((provider, index) => {
             const isSelected = selectedAIs.includes(provider.id);
+            const health = providerHealth.find(entry => entry.providerId === provider.id);
+            const healthNote = health
+              ? ` (checked ${new Date(health.checkedAt).toLocaleTimeString()}${health.latencyMs !== null ? `, ${health.latencyMs}ms` : ''}${health.error ? `: ${health.error}` : ''})`
+              : '';
             
             return (
               <div
@@ -850,7 +1120,7 @@ export default function SwimMeetFixed() {
                   transform: isSelected ? 'translateY(-2px)' : 'translateY(0)'
                 }}
                 data-testid={`provider-${provider.id}`}
-                title={`Click to ${isSelected ? 'deselect' : 'select'} ${provider.name}. Status: ${provider.status.replace('_', ' ')}`}
+                title={`Click to ${isSelected ? 'deselect' : 'select'} ${provider.name}. Status: ${provider.status.replace('_', ' ')}${healthNote}`}
               >
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '8px' }}>
                   <div style={{ fontSize: '18px', fontWeight: '600', color: '#1f2937' }}>
@@ -893,6 +1163,29 @@ export default function SwimMeetFixed() {
                   </div>
                 )}
                 
+                {/* Model picker for selected providers */}
+                {isSelected && (modelCatalog.find(entry => entry.id === provider.id)?.models.length ?? 0) > 0 && (
+                  <select
+                    value={modelSelections[provider.id] || modelCatalog.find(entry => entry.id === provider.id)?.defaultModel || ''}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => setModelSelections(prev => ({ ...prev, [provider.id]: e.target.value }))}
+                    style={{
+                      width: '100%',
+                      fontSize: '12px',
+                      padding: '4px 6px',
+                      marginBottom: '6px',
+                      border: '1px solid #d1d5db',
+                      borderRadius: '4px',
+                      background: 'white'
+                    }}
+                    data-testid={`select-model-${provider.id}`}
+                  >
+                    {modelCatalog.find(entry => entry.id === provider.id)!.models.map(model => (
+                      <option key={model.id} value={model.id}>{model.name}</option>
+                    ))}
+                  </select>
+                )}
+                
                 <div style={{ fontSize: '11px', color: '#9ca3af', fontStyle: 'italic' }}>
                   {mode === 'dive' && '⚡ Simultaneous multi-AI analysis'}
                   {mode === 'turn' && '🔄 AI-to-AI fact verification'}
@@ -1095,6 +1388,67 @@ export default function SwimMeetFixed() {
                 <span>{isQuerying ? 'Processing...' : `Submit to ${selectedAIs.length} AI${selectedAIs.length !== 1 ? 's' : ''}`}</span>
               </div>
             </button>
+
+            {conversationId && (isQuerying || responses.some(r => r.status === 'pending')) && (
+              <button
+                onClick={handleCancel}
+                data-testid="button-cancel-query"
+                className="swim-button swim-button--secondary"
+                title="Stop all running AI requests for this conversation"
+              >
+                <X size={14} style={{ marginRight: '4px' }} />
+                Stop
+              </button>
+            )}
+          </div>
+
+          <div style={{ display: 'flex', gap: 'var(--panel-gap)', flexWrap: 'wrap', marginTop: '8px' }}>
+            {mode !== 'turn' && (
+              <label
+                className="swim-caption"
+                style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}
+                title="Let AIs search your earlier conversations, read attached files and do exact arithmetic while answering"
+              >
+                <input
+                  type="checkbox"
+                  checked={enableTools}
+                  onChange={(e) => setEnableTools(e.target.checked)}
+                  disabled={isQuerying}
+                  data-testid="checkbox-enable-tools"
+                />
+                Allow tools (conversation search, file reader, calculator)
+              </label>
+            )}
+            <label
+              className="swim-caption"
+              style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}
+              title="Reuse a stored answer when the same provider, model, settings, query and files were asked recently. Cached answers are marked CACHED."
+            >
+              <input
+                type="checkbox"
+                checked={useCache}
+                onChange={(e) => setUseCache(e.target.checked)}
+                disabled={isQuerying}
+                data-testid="checkbox-use-cache"
+              />
+              Use cached answers
+            </label>
+            {mode === 'work' && (
+              <label
+                className="swim-caption"
+                style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}
+                title="When a step's AI fails, hand the step to the other selected AIs in the order you selected them instead of stopping the run"
+              >
+                <input
+                  type="checkbox"
+                  checked={useWorkFallbacks}
+                  onChange={(e) => setUseWorkFallbacks(e.target.checked)}
+                  disabled={isQuerying}
+                  data-testid="checkbox-work-fallbacks"
+                />
+                Fall back to other AIs when a step fails
+              </label>
+            )}
           </div>
         </div>
         </section>
@@ -1200,9 +1554,50 @@ export default function SwimMeetFixed() {
             borderRadius: '8px',
             boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
           }}>
-            <h3 style={{ margin: '0 0 15px 0', color: '#374151' }}>
-              {mode === 'work' ? 'Collaborative Results' : 'AI Responses'}
-            </h3>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+              <h3 style={{ margin: 0, color: '#374151' }}>
+                {mode === 'work' ? 'Collaborative Results' : 'AI Responses'}
+              </h3>
+              {conversationId && mode === 'dive' &&
+                responses.filter(r => r.status === 'complete' && !r.turnId && r.aiProvider !== 'synthesis').length >= 2 && (
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <button
+                    onClick={() => setShowDiff(!showDiff)}
+                    className={`swim-button ${showDiff ? 'swim-button--primary' : 'swim-button--secondary'}`}
+                    style={{ padding: '6px 12px', fontSize: '12px', minWidth: 'auto' }}
+                    data-testid="button-compare"
+                    title="Line the answers up claim by claim and highlight what each provider alone said"
+                  >
+                    {showDiff ? 'Hide Comparison' : 'Compare'}
+                  </button>
+                  <button
+                    onClick={handleSynthesize}
+                    disabled={responses.some(r => r.aiProvider === 'synthesis' && r.status === 'pending')}
+                    className="swim-button swim-button--secondary"
+                    style={{ padding: '6px 12px', fontSize: '12px', minWidth: 'auto' }}
+                    data-testid="button-synthesize"
+                    title={`Merge the answers with ${(selectedVerifier || 'anthropic').toUpperCase()}, marking agreement and disagreement`}
+                  >
+                    Synthesize
+                  </button>
+                  <button
+                    onClick={handleJudge}
+                    disabled={isJudging}
+                    className="swim-button swim-button--secondary"
+                    style={{ padding: '6px 12px', fontSize: '12px', minWidth: 'auto' }}
+                    data-testid="button-judge"
+                    title={`Have ${(selectedVerifier || 'anthropic').toUpperCase()} score the answers and propose medals`}
+                  >
+                    {isJudging ? 'Judging...' : 'Judge'}
+                  </button>
+                </div>
+              )}
+            </div>
+            {showDiff && conversationId && authToken && (
+              <div style={{ marginBottom: '15px' }}>
+                <ResponseDiff conversationId={conversationId} authToken={authToken} />
+              </div>
+            )}
             <div style={{ display: 'flex', flexDirection: 'column' }}>
               {responses.map(response => (
                 <div key={response.id} className="glass-panel-large swim-response-card">
@@ -1217,10 +1612,37 @@ export default function SwimMeetFixed() {
                           (Step {responses.indexOf(response) + 1})
                         </span>
                       )}
+                      {response.turnId && (
+                        <span className="swim-caption" style={{ marginLeft: 'calc(var(--grid-unit) / 2)' }}>
+                          (Follow-up)
+                        </span>
+                      )}
+                      {response.inputTokens != null && (
+                        <span
+                          className="swim-caption"
+                          style={{ marginLeft: 'calc(var(--grid-unit) / 2)' }}
+                          title={`${response.inputTokens} input / ${response.outputTokens ?? 0} output tokens`}
+                          data-testid={`usage-${response.id}`}
+                        >
+                          {(response.inputTokens + (response.outputTokens ?? 0)).toLocaleString()} tokens
+                          {response.costUsd != null && ` · $${response.costUsd.toFixed(4)}`}
+                        </span>
+                      )}
                     </div>
                     <div className="swim-response-actions">
-                      <div className={`swim-status swim-status--${response.status === 'complete' ? 'connected' : 'setup-required'}`}>
-                        {response.status.toUpperCase()}
+                      {response.metadata?.cache?.hit && (
+                        <div
+                          className="swim-status swim-status--disabled"
+                          title={`Answer cached ${new Date(response.metadata.cache.cachedAt).toLocaleString()}; no provider call was made`}
+                          data-testid={`cache-hit-${response.id}`}
+                        >
+                          CACHED
+                        </div>
+                      )}
+                      <div className={`swim-status swim-status--${response.status === 'complete' ? 'connected' : response.status === 'cancelled' ? 'disabled' : 'setup-required'}`}>
+                        {response.status === 'pending' && response.metadata?.queuePosition
+                          ? `QUEUED #${response.metadata.queuePosition}`
+                          : response.status.toUpperCase()}
                       </div>
                       {response.status === 'complete' && (
                         <button
@@ -1240,8 +1662,59 @@ export default function SwimMeetFixed() {
                     </div>
                   </div>
                   <div className="swim-response-content">
-                    {response.content}
+                    {response.metadata?.claimVerification ? (
+                      <ClaimHighlights content={response.content} verification={response.metadata.claimVerification} />
+                    ) : response.content}
                   </div>
+                  {response.metadata?.synthesis && (
+                    <details style={{ marginTop: '10px', fontSize: '12px', color: '#374151' }} data-testid={`synthesis-sources-${response.id}`}>
+                      <summary style={{ cursor: 'pointer', fontWeight: 600 }}>
+                        Synthesized by {response.metadata.synthesis.synthesizedBy.toUpperCase()} from {response.metadata.synthesis.sources.length} responses
+                      </summary>
+                      {response.metadata.synthesis.sources.map((source: any) => (
+                        <div key={source.responseId} style={{ marginTop: '4px', fontFamily: 'monospace' }}>
+                          Source {source.number}: {source.aiProvider} · {source.responseId}
+                        </div>
+                      ))}
+                    </details>
+                  )}
+                  {judgeRun?.verdicts.filter(verdict => verdict.responseId === response.id).map(verdict => (
+                    <details key={verdict.id} style={{ marginTop: '10px', fontSize: '12px', color: '#374151' }} data-testid={`judge-verdict-${response.id}`}>
+                      <summary style={{ cursor: 'pointer', fontWeight: 600 }}>
+                        Judge ({judgeRun.judgeProvider.toUpperCase()}): {verdict.award ? verdict.award.toUpperCase() : 'no medal'} · {verdict.total}/10
+                      </summary>
+                      <div style={{ marginTop: '4px' }}>
+                        Accuracy {verdict.scores.accuracy} · Completeness {verdict.scores.completeness} · Clarity {verdict.scores.clarity} · Truthfulness {verdict.scores.truthfulness}
+                      </div>
+                      <div style={{ marginTop: '4px' }}>{verdict.justification}</div>
+                    </details>
+                  ))}
+                  {response.metadata?.toolCalls?.length > 0 && (
+                    <details style={{ marginTop: '10px', fontSize: '12px', color: '#374151' }} data-testid={`tool-calls-${response.id}`}>
+                      <summary style={{ cursor: 'pointer', fontWeight: 600 }}>
+                        Tool calls ({response.metadata.toolCalls.length})
+                      </summary>
+                      {response.metadata.toolCalls.map((call: any, index: number) => (
+                        <div
+                          key={index}
+                          style={{
+                            marginTop: '6px',
+                            padding: '8px',
+                            backgroundColor: call.isError ? '#fef2f2' : '#f8fafc',
+                            border: `1px solid ${call.isError ? '#fecaca' : '#e2e8f0'}`,
+                            borderRadius: '4px'
+                          }}
+                        >
+                          <div style={{ fontFamily: 'monospace' }}>
+                            {call.name}({JSON.stringify(call.arguments)}) · round {call.round} · {call.durationMs}ms
+                          </div>
+                          <pre style={{ margin: '4px 0 0', whiteSpace: 'pre-wrap', maxHeight: '160px', overflow: 'auto' }}>
+                            {call.result}
+                          </pre>
+                        </div>
+                      ))}
+                    </details>
+                  )}
                   {response.responseTime && (
                     <div className="swim-response-time">
                       Response time: {(response.responseTime / 1000).toFixed(1)}s
@@ -1333,6 +1806,36 @@ export default function SwimMeetFixed() {
                             TURN Validate
                           </button>
                         )}
+
+                        {response.status === 'complete' && response.aiProvider !== 'synthesis' && (
+                          <button
+                            onClick={() => handleVerifyClaims(response.id)}
+                            disabled={checkingClaims !== null}
+                            className="swim-button swim-button--secondary"
+                            style={{ padding: '6px 12px', fontSize: '12px', minWidth: 'auto' }}
+                            data-testid={`button-verify-claims-${response.id}`}
+                            title={`Have ${(selectedVerifier || 'anthropic').toUpperCase()} check every factual claim and highlight what is wrong`}
+                          >
+                            {checkingClaims === response.id ? 'Checking Claims...' : 'Check Claims'}
+                          </button>
+                        )}
+                        
+                        {/* Follow-up with just this provider */}
+                        {mode !== 'work' && response.aiProvider !== 'synthesis' && (
+                          <button
+                            onClick={() => setFollowUpTarget(response.aiProvider)}
+                            className={`swim-button ${followUpTarget === response.aiProvider ? 'swim-button--primary' : 'swim-button--secondary'}`}
+                            style={{
+                              padding: '6px 12px',
+                              fontSize: '12px',
+                              minWidth: 'auto'
+                            }}
+                            data-testid={`button-follow-up-${response.id}`}
+                            title={`Ask ${response.aiProvider} a follow-up question`}
+                          >
+                            Follow Up
+                          </button>
+                        )}
                         
                         {/* Rating Status */}
                         {response.rating && (
@@ -1350,6 +1853,40 @@ export default function SwimMeetFixed() {
                 </div>
               ))}
             </div>
+
+            {/* Follow-up question for the whole field or a single provider */}
+            {conversationId && mode !== 'work' && (
+              <div style={{ marginTop: '15px', display: 'flex', gap: '8px', alignItems: 'center' }}>
+                <input
+                  type="text"
+                  value={followUpQuery}
+                  onChange={(e) => setFollowUpQuery(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleFollowUp(); }}
+                  placeholder={followUpTarget ? `Follow up with ${followUpTarget.toUpperCase()}...` : 'Follow up with all providers...'}
+                  style={{ flex: 1, padding: '8px 12px', borderRadius: '6px' }}
+                  data-testid="input-follow-up"
+                />
+                {followUpTarget && (
+                  <button
+                    onClick={() => setFollowUpTarget(null)}
+                    className="swim-button swim-button--secondary"
+                    style={{ padding: '6px 12px', fontSize: '12px', minWidth: 'auto' }}
+                    data-testid="button-follow-up-all"
+                  >
+                    All Providers
+                  </button>
+                )}
+                <button
+                  onClick={handleFollowUp}
+                  disabled={!followUpQuery.trim()}
+                  className="swim-button swim-button--primary"
+                  style={{ padding: '6px 12px', fontSize: '12px', minWidth: 'auto' }}
+                  data-testid="button-submit-follow-up"
+                >
+                  Ask
+                </button>
+              </div>
+            )}
           </div>
         )}
 
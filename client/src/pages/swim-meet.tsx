@@ -350,9 +350,8 @@ export default function SwimMeet() {
   // Award response mutation
   const awardMutation = useMutation({
     mutationFn: async ({ responseId, award }: { responseId: string, award: string }) => {
-      const response = await fetch(`/api/responses/${responseId}/award`, {
+      const response = await makeAuthenticatedRequest(`/api/responses/${responseId}/award`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ award })
       });
       return response.json();
@@ -1,7 +1,7 @@
 import { db } from "./db";
-import { users, conversations, responses } from "@shared/schema";
-import { type User, type InsertUser, type Conversation, type InsertConversation, type Response, type InsertResponse } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import { users, conversations, responses, conversationTurns } from "@shared/schema";
+import { type User, type InsertUser, type Conversation, type InsertConversation, type Response, type InsertResponse, type ConversationTurn, type InsertConversationTurn } from "@shared/schema";
+import { eq, desc, asc } from "drizzle-orm";
 import { IStorage } from "./storage";
 
 export class DatabaseStorage implements IStorage {
@@ -97,6 +97,20 @@ export class DatabaseStorage implements IStorage {
       .where(eq(conversations.id, conversationId));
   }
 
+  // Conversation turn methods
+  async createConversationTurn(insertTurn: InsertConversationTurn): Promise<ConversationTurn> {
+    const [turn] = await db.insert(conversationTurns).values(insertTurn).returning();
+    return turn;
+  }
+
+  async getConversationTurns(conversationId: string): Promise<ConversationTurn[]> {
+    return await db
+      .select()
+      .from(conversationTurns)
+      .where(eq(conversationTurns.conversationId, conversationId))
+      .orderBy(asc(conversationTurns.turnNumber));
+  }
+
   // Response methods
   async createResponse(insertResponse: InsertResponse): Promise<Response> {
     const responseData = {
@@ -105,6 +119,7 @@ export class DatabaseStorage implements IStorage {
       content: insertResponse.content,
       status: insertResponse.status || 'pending',
       workStep: insertResponse.workStep || null,
+      turnId: insertResponse.turnId || null,
       handoffData: insertResponse.handoffData || {},
       metadata: insertResponse.metadata || {}
     };
@@ -169,6 +184,7 @@ export class DatabaseStorage implements IStorage {
       const completeResponses = responses.filter(r => r.status === 'complete');
       const verifiedResponses = responses.filter(r => r.verificationStatus === 'complete');
       const awardCounts = { gold: 0, silver: 0, bronze: 0, finished: 0, quit: 0, titanic: 0 };
+      const blindAwardCounts = { gold: 0, silver: 0, bronze: 0, finished: 0, quit: 0, titanic: 0 };
       
       let totalResponseTime = 0;
       let responseTimeCount = 0;
@@ -179,6 +195,9 @@ export class DatabaseStorage implements IStorage {
         // Count awards
         if (response.award && awardCounts.hasOwnProperty(response.award)) {
           awardCounts[response.award as keyof typeof awardCounts]++;
+          if (response.awardBlind) {
+            blindAwardCounts[response.award as keyof typeof blindAwardCounts]++;
+          }
         }
         
         // Calculate average response times
@@ -201,6 +220,7 @@ export class DatabaseStorage implements IStorage {
         completeResponses: completeResponses.length,
         verifiedResponses: verifiedResponses.length,
         awards: awardCounts,
+        blindAwards: blindAwardCounts, // Given without the provider visible; awards minus these were sighted
         avgResponseTimeMs: responseTimeCount > 0 ? Math.round(totalResponseTime / responseTimeCount) : null,
         avgAccuracyScore: accuracyCount > 0 ? Math.round((totalAccuracyScore / accuracyCount) * 10) / 10 : null,
         successRate: responses.length > 0 ? Math.round((completeResponses.length / responses.length) * 100) : 0,
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { providerHealth } from "./services/provider-health";
 
 const app = express();
 app.use(express.json());
@@ -67,5 +68,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    providerHealth.start();
   });
 })();
@@ -2,9 +2,13 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { encryptCredentials, decryptCredentials } from "./services/encryption";
-import { AIService } from "./services/ai-service";
+import { AIService, type AIServiceResponse } from "./services/ai-service";
+import { hasProvider, getCustomEndpoints, setCustomEndpoints, customProviderId, getCircuitStatus, callWithFallback, type MediaAttachment, type QueryOptions } from "./services/providers";
+
+// Connection tests should fail fast rather than wait out retries
+const CONNECTION_TEST_POLICY = { maxRetries: 0, timeoutMs: 15000 };
 import { WorkflowEngine } from "./workflow-engine";
-import { credentialsSchema, insertConversationSchema, insertResponseSchema, insertUserSchema, type QueryRequest, type AIProvider } from "@shared/schema";
+import { credentialsSchema, insertConversationSchema, insertResponseSchema, insertUserSchema, type QueryRequest, type AIProvider, type ChatMessage, type Conversation, type ConversationTurn, type FollowUpRequest, type Response, type GenerationOptions, type ProviderModelCatalog, type ClaimVerification, providerOptionsSchema, customEndpointSchema, verificationReportSchema, cacheOptionsSchema, semanticSearchSchema, generationOptionsSchema, responseDiffRequestSchema, responseAwardSchema, blindJudgingRequestSchema, responseRatingSchema, leaderboardQuerySchema, judgeRequestSchema, claimVerificationRequestSchema } from "@shared/schema";
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import session from 'express-session';
@@ -15,6 +19,18 @@ import { isUserWhitelisted } from './whitelist';
 import { adminService } from './admin';
 import { randomUUID } from 'crypto';
 import { DisposableTokenService } from './services/disposable-tokens';
+import { cancellationRegistry, CANCELLED_MESSAGE } from './services/cancellation';
+import { providerHealth, ANONYMOUS_HEALTH_KEY, type ProviderHealth } from './services/provider-health';
+import { loadAttachment } from './services/attachments';
+import { getToolDefinitions, runTool, type ToolContext } from './services/tools';
+import { semanticSearch } from './services/semantic-search';
+import { diffResponses } from './services/response-diff';
+import { isSynthesis, selectSynthesisSources, synthesizeResponses, SYNTHESIS_PROVIDER, type SynthesisProvenance } from './services/synthesis';
+import { canReveal, isBlind, judgedResponses, labelNewResponses, maskResponse, startBlindJudging } from './services/blind-judging';
+import { buildLeaderboard } from './services/leaderboard';
+import { getJudgeAgreement, getJudgeRuns, judgeResponses } from './services/judge';
+import { verifyClaims } from './services/claim-verification';
+import { openEventStream } from './services/event-stream';
 
 // Extend session interface
 declare module 'express-session' {
@@ -180,25 +196,8 @@ async function processWorkflowStep(aiProvider: string, prompt: string, responseI
       credentials = decryptCredentials(user.encryptedCredentials.encrypted);
     }
 
-    const aiService = new AIService(credentials);
-    let result;
-
-    switch (aiProvider) {
-      case 'openai':
-        result = await aiService.queryOpenAI(prompt);
-        break;
-      case 'anthropic':
-        result = await aiService.queryAnthropic(prompt);
-        break;
-      case 'google':
-        result = await aiService.queryGemini(prompt);
-        break;
-      case 'perplexity':
-        result = await aiService.queryPerplexity(prompt);
-        break;
-      default:
-        result = { success: false, error: `Unsupported AI provider: ${aiProvider}` };
-    }
+    const aiService = new AIService(credentials, "default-user");
+    const result = await aiService.query(aiProvider, prompt);
 
     if (result.success) {
       await storage.updateResponse(responseId, {
@@ -233,6 +232,138 @@ async function processWorkflowStep(aiProvider: string, prompt: string, responseI
   }
 }
 
+// Append attachment previews to a DIVE query so every provider sees the same file context
+// Text files are summarized in the prompt; images and PDFs are returned separately so they reach
+// the model natively (or as extracted text for providers without vision)
+async function buildQueryWithAttachments(query: string, attachedFiles: any[]): Promise<{ prompt: string; attachments: MediaAttachment[] }> {
+  let queryWithAttachments = query;
+  const attachments: MediaAttachment[] = [];
+  
+  if (attachedFiles.length > 0) {
+    queryWithAttachments += `\n\n**ATTACHED FILES SUMMARY:**\n`;
+    
+    for (const file of attachedFiles) {
+      try {
+        const attachment = await loadAttachment(file);
+        if (attachment && attachment.kind !== 'text') {
+          attachments.push(attachment);
+          queryWithAttachments += `\n--- FILE: ${file.name} (${attachment.mimeType}, ${Math.round(attachment.data.length / 1024)}KB) ---\n`;
+          queryWithAttachments += `Attached to this message as ${attachment.kind === 'image' ? 'an image' : 'a PDF document'}\n--- END FILE SUMMARY ---\n`;
+        } else if (attachment) {
+          const textContent = attachment.data.toString('utf-8');
+          // Create intelligent summary instead of including full content
+          const contentPreview = textContent.length > 500 ? 
+            textContent.substring(0, 500) + '... [CONTENT TRUNCATED]' : 
+            textContent;
+          
+          queryWithAttachments += `\n--- FILE: ${file.name} (${file.type || 'unknown'}, ${Math.round(attachment.data.length / 1024)}KB) ---\n`;
+          queryWithAttachments += `Content Preview: ${contentPreview}\n`;
+          queryWithAttachments += `Total Length: ${textContent.length} characters\n--- END FILE SUMMARY ---\n`;
+        } else {
+          queryWithAttachments += `\n--- FILE: ${file.name} ---\n[FILE NOT ACCESSIBLE]\n--- END FILE SUMMARY ---\n`;
+        }
+      } catch (error) {
+        console.error(`Error reading file ${file.name}:`, error);
+        queryWithAttachments += `\n--- FILE: ${file.name} ---\n[ERROR: Could not read file]\n--- END FILE SUMMARY ---\n`;
+      }
+    }
+    
+    queryWithAttachments += `\n*Above are file summaries. Note: Full file content available if needed for analysis. Reference files by name in your response.*`;
+  }
+
+  return { prompt: queryWithAttachments, attachments };
+}
+
+// Rebuild one provider's side of a multi-turn conversation: each earlier query paired with
+// that provider's own completed answer. Turns the provider did not answer are skipped.
+function buildProviderHistory(conversation: Conversation, turns: ConversationTurn[], responses: Response[], aiProvider: string): ChatMessage[] {
+  const history: ChatMessage[] = [];
+  const exchanges = [
+    { query: conversation.query, turnId: null as string | null },
+    ...turns.map(turn => ({ query: turn.query, turnId: turn.id as string | null }))
+  ];
+
+  for (const exchange of exchanges) {
+    const answer = responses.find(r =>
+      r.aiProvider === aiProvider &&
+      (r.turnId ?? null) === exchange.turnId &&
+      !r.workStep &&
+      r.status === 'complete'
+    );
+    if (answer) {
+      history.push({ role: 'user', content: exchange.query }, { role: 'assistant', content: answer.content });
+    }
+  }
+
+  return history;
+}
+
+// What a response was generated with, stored under responses.metadata.generation
+function buildGenerationMetadata(aiService: AIService, aiProvider: string, options: GenerationOptions = {}): Record<string, any> {
+  return {
+    generation: {
+      model: options.model || aiService.getProviderInfo(aiProvider)?.defaultModel,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      systemPrompt: options.systemPrompt
+    }
+  };
+}
+
+// Persist a provider result on its response row: attempt history and answering model in metadata,
+// token usage and cost in their own columns so they can be aggregated
+async function saveAIResult(response: Response, aiResult: AIServiceResponse, updates: Partial<Response> = {}): Promise<void> {
+  const succeeded = aiResult.success && !!aiResult.content;
+  await storage.updateResponse(response.id, {
+    content: succeeded ? aiResult.content! : aiResult.cancelled ? CANCELLED_MESSAGE : aiResult.error || "Unknown error",
+    status: succeeded ? "complete" : aiResult.cancelled ? "cancelled" : "error",
+    metadata: {
+      ...(response.metadata || {}),
+      attempts: aiResult.attempts ?? [],
+      ...(aiResult.model ? { generation: { ...response.metadata?.generation, model: aiResult.model } } : {}),
+      ...(aiResult.toolLog?.length ? { toolCalls: aiResult.toolLog } : {}),
+      ...(aiResult.transcriptions?.length ? { transcriptions: aiResult.transcriptions } : {}),
+      ...(aiResult.cache ? { cache: aiResult.cache } : {})
+    },
+    inputTokens: aiResult.usage?.inputTokens ?? null,
+    outputTokens: aiResult.usage?.outputTokens ?? null,
+    costUsd: aiResult.costUsd ?? null,
+    ...updates
+  });
+}
+
+// Query a provider, letting it call the built-in tools (see services/tools) when the user allowed them
+function queryProvider(aiService: AIService, aiProvider: string, prompt: string, options: QueryOptions, toolContext: ToolContext | null): Promise<AIServiceResponse> {
+  if (!toolContext) {
+    return aiService.query(aiProvider, prompt, options);
+  }
+  return aiService.queryWithTools(aiProvider, prompt, getToolDefinitions(), call => runTool(call, toolContext), options);
+}
+
+// Shows the rate-limit queue position on a pending response until its call starts.
+// Written from the creation-time metadata, which saveAIResult also starts from.
+function trackQueuePosition(response: Response): (position: number | null) => void {
+  return (position) => {
+    storage.updateResponse(response.id, {
+      metadata: { ...(response.metadata || {}), queuePosition: position }
+    }).catch(error => console.error(`Failed to record queue position for ${response.id}:`, error));
+  };
+}
+
+// While a conversation is judged blind, answers get labels as they arrive and go out without their provider.
+// Pass the conversation as just read: stale labels would be written back over newer ones.
+async function maskForBlindJudging<T extends { id: string; aiProvider: string; metadata?: unknown }>(
+  conversation: Conversation | undefined,
+  listed: T[]
+): Promise<(T & { blindLabel?: string })[]> {
+  if (!conversation?.blindJudging || !isBlind(conversation)) return listed;
+  const labelled = labelNewResponses(conversation.blindJudging, await storage.getConversationResponses(conversation.id));
+  if (labelled) {
+    await storage.updateConversation(conversation.id, { blindJudging: labelled });
+  }
+  return listed.map(r => maskResponse(r, labelled ?? conversation.blindJudging!));
+}
+
 // JWT secret - in production this should be a secure environment variable
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 
@@ -254,6 +385,33 @@ function authenticateToken(req: any, res: any, next: any) {
   });
 }
 
+// Routes that predate auth take a userId parameter; prefer the signed-in user when a valid token is sent
+function resolveUserId(req: any, fallback: string): string {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (token) {
+    try {
+      const user = jwt.verify(token, JWT_SECRET) as any;
+      if (user?.userId) return user.userId;
+    } catch (error) {
+      // Fall back to the explicit userId
+    }
+  }
+
+  return fallback;
+}
+
+// Cached health results for the user's providers, with the live circuit state alongside
+async function getProviderHealthReport(userId: string): Promise<(ProviderHealth & { providerId: string; circuit: string })[]> {
+  const health = await providerHealth.getHealth(userId, []);
+  return Array.from(health.entries()).map(([providerId, entry]) => ({
+    providerId,
+    ...entry,
+    circuit: getCircuitStatus(providerId),
+  }));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Configure session middleware for optional session-based auth
   app.use(session({
@@ -503,23 +661,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { provider, apiKey } = req.body;
       
-      const aiService = new AIService({ [provider]: apiKey });
-      let testResult;
-
-      switch (provider) {
-        case 'openai':
-          testResult = await aiService.queryOpenAI("Test message");
-          break;
-        case 'anthropic':
-          testResult = await aiService.queryAnthropic("Test message");
-          break;
-        case 'google':
-          testResult = await aiService.queryGemini("Test message");
-          break;
-        default:
-          return res.status(400).json({ message: "Unsupported provider" });
+      if (!hasProvider(provider)) {
+        return res.status(400).json({ message: "Unsupported provider" });
       }
 
+      const aiService = new AIService({ [provider]: apiKey });
+      const testResult = await aiService.query(provider, "Test message", { policy: CONNECTION_TEST_POLICY });
+
       res.json({ success: testResult.success, error: testResult.error });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -531,9 +679,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const credentials = credentialsSchema.parse(req.body.credentials);
       const userId = req.body.userId || "default-user"; // For demo purposes
+
+      // Custom endpoints share the encrypted blob; keep them when API keys are saved
+      const user = await storage.getUser(userId);
+      let existingCredentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
+        try {
+          existingCredentials = decryptCredentials(user.encryptedCredentials.encrypted);
+        } catch (error) {
+          // Unreadable credentials are replaced
+        }
+      }
       
-      const encryptedCredentials = encryptCredentials(credentials);
+      const encryptedCredentials = encryptCredentials(
+        setCustomEndpoints(credentials as Record<string, string>, getCustomEndpoints(existingCredentials))
+      );
       await storage.updateUserCredentials(userId, encryptedCredentials);
+      providerHealth.invalidate(userId);
       
       res.json({ message: "Credentials saved successfully" });
     } catch (error: any) {
@@ -545,7 +707,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/providers/test", async (req, res) => {
     try {
       const { providerId } = req.body;
-      const userId = req.body.userId || "default-user";
+      const userId = resolveUserId(req, req.body.userId || "default-user");
       
       // Get user credentials
       const user = await storage.getUser(userId);
@@ -559,37 +721,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const aiService = new AIService(credentials);
-      let testResult;
-
-      switch (providerId) {
-        case 'openai':
-          testResult = await aiService.queryOpenAI("Test connection");
-          break;
-        case 'anthropic':
-          testResult = await aiService.queryAnthropic("Test connection");
-          break;
-        case 'google':
-          testResult = await aiService.queryGemini("Test connection");
-          break;
-        case 'microsoft':
-          testResult = await aiService.queryMicrosoft("Test connection");
-          break;
-        case 'perplexity':
-          testResult = await aiService.queryPerplexity("Test connection");
-          break;
-        case 'grok':
-          testResult = await aiService.queryGrok("Test connection");
-          break;
-        case 'llama':
-          testResult = await aiService.queryLlama("Test connection");
-          break;
-        case 'deepseek':
-          testResult = await aiService.queryDeepSeek("Test connection");
-          break;
-        default:
-          return res.status(400).json({ success: false, error: "Unknown provider" });
+      if (!aiService.hasProvider(providerId)) {
+        return res.status(400).json({ success: false, error: "Unknown provider" });
       }
 
+      const testResult = await aiService.query(providerId, "Test connection", { policy: CONNECTION_TEST_POLICY });
+
       res.json({ success: testResult.success, error: testResult.error });
     } catch (error: any) {
       res.status(500).json({ success: false, error: error.message });
@@ -603,8 +740,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.set('Pragma', 'no-cache');
     res.set('Expires', '0');
     
-    const userId = req.query.userId as string || "default-user";
+    const userId = resolveUserId(req, req.query.userId as string || "default-user");
     const user = await storage.getUser(userId);
+    // Unknown userIds share one environment-key bucket instead of each getting their own scheduled probes
+    const healthKey = user ? userId : ANONYMOUS_HEALTH_KEY;
     
     let credentials: Record<string, string> = {};
     if (user?.encryptedCredentials?.encrypted) {
@@ -615,86 +754,161 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     }
 
-    console.log("TESTING AI PROVIDERS WITH REAL API CALLS...");
     const aiService = new AIService(credentials);
+    const testedProviders = aiService.listProviders()
+      .filter(provider => !provider.listing)
+      .map(({ listing, ...provider }) => provider);
+
+    // Served from the scheduled health checks; see services/provider-health
+    const health = await providerHealth.getHealth(healthKey, testedProviders.map(provider => provider.id));
+    const providers: AIProvider[] = testedProviders.map(provider => ({
+      ...provider,
+      // Open circuit: the provider has been failing live requests since the last check
+      status: getCircuitStatus(provider.id) === 'open' ? 'degraded' : health.get(provider.id)?.status ?? 'error',
+    }));
     
-    const providerTests = [
-      { id: 'openai', name: 'ChatGPT-4', company: 'OpenAI', requiresApiKey: true },
-      { id: 'anthropic', name: 'Claude 4', company: 'Anthropic', requiresApiKey: true },
-      { id: 'google', name: 'Gemini Pro', company: 'Google', requiresApiKey: true },
-      { id: 'perplexity', name: 'Perplexity', company: 'Perplexity AI', requiresApiKey: true },
-      { id: 'deepseek', name: 'DeepSeek', company: 'DeepSeek AI', requiresApiKey: true },
-      { id: 'grok', name: 'Grok', company: 'xAI', requiresApiKey: true },
-      { id: 'mistral', name: 'Mistral AI', company: 'Mistral AI', requiresApiKey: true },
-    ];
+    // Add grayed-out disabled providers (API issues on their end)
+    const disabledProviders = aiService.listProviders()
+      .filter(provider => provider.listing)
+      .map(({ listing, ...provider }) => ({ ...provider, ...listing! }));
 
+    const allProviders = [...providers, ...disabledProviders];
+    res.json(allProviders);
+  });
 
+  // Latest health check per provider with latency history (Protected route)
+  app.get("/api/providers/health", authenticateToken, async (req: any, res) => {
+    try {
+      res.json(await getProviderHealthReport(req.user.userId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-    // Test each provider with actual API calls - REAL TESTING
-    const providers: AIProvider[] = await Promise.all(
-      providerTests.map(async (provider) => {
-        let testResult;
-        
+  // Re-test now instead of waiting for the next scheduled check (Protected route)
+  app.post("/api/providers/health/check", authenticateToken, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { providerId } = req.body as { providerId?: string };
+      await providerHealth.check(userId, providerId ? [providerId] : undefined);
+      res.json(await getProviderHealthReport(userId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // List the user's custom OpenAI-compatible endpoints; keys are never returned (Protected route)
+  app.get("/api/custom-providers", authenticateToken, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.userId);
+      let credentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
+        credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+      }
+
+      res.json(getCustomEndpoints(credentials).map(({ apiKey, ...endpoint }) => ({
+        ...endpoint,
+        providerId: customProviderId(endpoint),
+        hasApiKey: !!apiKey
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Add or replace a custom endpoint by id (Protected route)
+  app.post("/api/custom-providers", authenticateToken, async (req: any, res) => {
+    try {
+      const parsed = customEndpointSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid custom provider", errors: parsed.error.errors });
+      }
+
+      const userId = req.user.userId;
+      const user = await storage.getUser(userId);
+      let credentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
         try {
-          console.log(`Testing ${provider.name}...`);
-          switch (provider.id) {
-            case 'openai':
-              testResult = await aiService.queryOpenAI("Test connection");
-              break;
-            case 'anthropic':
-              testResult = await aiService.queryAnthropic("Test connection");
-              break;
-            case 'google':
-              testResult = await aiService.queryGemini("Test connection");
-              break;
-
-            case 'perplexity':
-              testResult = await aiService.queryPerplexity("Test connection");
-              break;
-            case 'grok':
-              testResult = await aiService.queryGrok("Test connection");
-              break;
-
-            case 'deepseek':
-              testResult = await aiService.queryDeepSeek("Test connection");
-              break;
-            case 'mistral':
-              testResult = { success: false, error: "Mistral API not configured" };
-              break;
-            default:
-              testResult = { success: false, error: "Unknown provider" };
-          }
-          console.log(`${provider.name}: ${testResult.success ? 'CONNECTED' : 'FAILED - ' + testResult.error}`);
-        } catch (error: any) {
-          testResult = { success: false, error: error.message };
-          console.log(`${provider.name}: ERROR - ${error.message}`);
+          credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+        } catch (error) {
+          return res.status(400).json({ message: "Failed to decrypt credentials" });
         }
+      }
 
-        return {
-          ...provider,
-          status: (testResult.success ? 'connected' : 
-                 (testResult.error?.includes('not configured') || testResult.error?.includes('API key')) ? 'setup_required' : 'error') as 'connected' | 'setup_required' | 'error'
-        };
-      })
-    );
+      const endpoints = getCustomEndpoints(credentials);
+      const existing = endpoints.find(endpoint => endpoint.id === parsed.data.id);
+      // Editing without re-entering the key keeps the stored one
+      const endpoint = { ...parsed.data, apiKey: parsed.data.apiKey || existing?.apiKey };
+      const updatedEndpoints = [...endpoints.filter(e => e.id !== endpoint.id), endpoint];
 
-    console.log("REAL API TEST RESULTS:", providers.map(p => `${p.name}: ${p.status}`));
-    
-    // Add grayed-out disabled providers (API issues on their end)
-    const disabledProviders = [
-      { id: 'microsoft', name: 'Copilot', company: 'Microsoft', status: 'setup_required' as const, requiresApiKey: false, statusMessage: 'API Not Yet Available' },
-      { id: 'llama', name: 'Llama 3.2', company: 'Meta', status: 'disabled' as const, requiresApiKey: false },
-    ];
+      await storage.updateUserCredentials(userId, encryptCredentials(setCustomEndpoints(credentials, updatedEndpoints)));
+      providerHealth.invalidate(userId);
 
-    const allProviders = [...providers, ...disabledProviders];
-    res.json(allProviders);
+      res.json({ message: "Custom provider saved", providerId: customProviderId(endpoint) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Remove a custom endpoint (Protected route)
+  app.delete("/api/custom-providers/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const user = await storage.getUser(userId);
+      let credentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
+        try {
+          credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+        } catch (error) {
+          return res.status(400).json({ message: "Failed to decrypt credentials" });
+        }
+      }
+
+      const endpoints = getCustomEndpoints(credentials);
+      if (!endpoints.some(endpoint => endpoint.id === req.params.id)) {
+        return res.status(404).json({ message: "Custom provider not found" });
+      }
+
+      const remaining = endpoints.filter(endpoint => endpoint.id !== req.params.id);
+      await storage.updateUserCredentials(userId, encryptCredentials(setCustomEndpoints(credentials, remaining)));
+      providerHealth.invalidate(userId);
+
+      res.json({ message: "Custom provider removed" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Model catalog for the AI selector; no connection testing
+  app.get("/api/providers/models", async (req, res) => {
+    const userId = resolveUserId(req, req.query.userId as string || "default-user");
+    const user = await storage.getUser(userId);
+
+    let credentials: Record<string, string> = {};
+    if (user?.encryptedCredentials?.encrypted) {
+      try {
+        credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+      } catch (error) {
+        // Built-in providers are still listed
+      }
+    }
+
+    const catalog: ProviderModelCatalog[] = new AIService(credentials).listProviders()
+      .filter(provider => provider.listing?.status !== 'disabled')
+      .map(provider => ({
+        id: provider.id,
+        name: provider.name,
+        defaultModel: provider.defaultModel,
+        models: provider.models
+      }));
+    res.json(catalog);
   });
 
   // Submit query to multiple AIs (Protected route)
   app.post("/api/query", authenticateToken, async (req: any, res) => {
     try {
       console.log("Request body:", JSON.stringify(req.body, null, 2));
-      const { prompt, providers, query, selectedAIs, conversationId } = req.body as QueryRequest & { prompt?: string, providers?: string[] };
+      const { prompt, providers, query, selectedAIs, conversationId, enableTools = false, fallbackProviders = [] } = req.body as QueryRequest & { prompt?: string, providers?: string[] };
       const userId = req.user.userId; // Get userId from authenticated token
       
       // Support both old and new request formats
@@ -710,6 +924,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!actualProviders || !Array.isArray(actualProviders) || actualProviders.length === 0) {
         return res.status(400).json({ message: "Providers array is required" });
       }
+
+      if (!Array.isArray(fallbackProviders) || fallbackProviders.some(provider => typeof provider !== 'string')) {
+        return res.status(400).json({ message: "fallbackProviders must be an array of provider ids" });
+      }
+
+      const parsedOptions = providerOptionsSchema.optional().safeParse(req.body.providerOptions);
+      if (!parsedOptions.success) {
+        return res.status(400).json({ message: "Invalid provider options", errors: parsedOptions.error.errors });
+      }
+      const providerOptions = parsedOptions.data || {};
+
+      const parsedCache = cacheOptionsSchema.optional().safeParse(req.body.cache);
+      if (!parsedCache.success) {
+        return res.status(400).json({ message: "Invalid cache options", errors: parsedCache.error.errors });
+      }
+      const cache = parsedCache.data;
       
       const { mode } = req.body;
       
@@ -749,7 +979,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Create AI service instance
-      const aiService = new AIService(credentials);
+      const aiService = new AIService(credentials, userId);
 
       // WORK mode: Enhanced sequential collaborative processing
       if (mode === 'work') {
@@ -770,14 +1000,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
             objective: step.objective,
             completed: false,
             output: null,
-            hasAttachments: step.hasAttachments
+            hasAttachments: step.hasAttachments,
+            fallbackProviders: fallbackProviders.filter(provider => provider !== step.assignedAI)
           })),
           collaborativeDoc: `# ${actualQuery}\n\n**Truth & Accuracy Mandate**: All AI team members must prioritize factual accuracy, user sovereignty, and transparency.\n\n**Selected Team**: ${actualProviders.join(', ')}\n\n---\n\n`,
           sharedContext: {
             originalQuery: actualQuery,
             attachedFiles: attachedFiles || [],
             coreValues: "Truth, factual accuracy, and user sovereignty are paramount",
-            allSelectedAIs: actualProviders // Track ALL selected AIs
+            allSelectedAIs: actualProviders, // Track ALL selected AIs
+            providerOptions,
+            enableTools
           },
           userFeedbackEnabled: true,
           needsUserReview: false
@@ -806,121 +1039,711 @@ export async function registerRoutes(app: Express): Promise<Server> {
           conversationId: convId!,
           aiProvider,
           content: "",
-          status: "pending"
+          status: "pending",
+          metadata: buildGenerationMetadata(aiService, aiProvider, providerOptions[aiProvider])
         });
+        const signal = cancellationRegistry.register(convId!, response.id);
 
         // Query AI in background
         setImmediate(async () => {
           try {
             console.log(`🤖 Starting AI query for ${aiProvider}...`);
-            let aiResult;
             
             // Build query with attachment content (same as WORK mode)
-            let queryWithAttachments = actualQuery;
             const { attachedFiles = [] } = req.body;
+            const { prompt: queryWithAttachments, attachments } = await buildQueryWithAttachments(actualQuery, attachedFiles);
             
-            if (attachedFiles.length > 0) {
-              queryWithAttachments += `\n\n**ATTACHED FILES SUMMARY:**\n`;
-              
-              for (const file of attachedFiles) {
-                try {
-                  const fileContent = await localStorage.getFile(file.id || file.name);
-                  if (fileContent) {
-                    const textContent = fileContent.toString('utf-8');
-                    // Create intelligent summary instead of including full content
-                    const contentPreview = textContent.length > 500 ? 
-                      textContent.substring(0, 500) + '... [CONTENT TRUNCATED]' : 
-                      textContent;
-                    
-                    queryWithAttachments += `\n--- FILE: ${file.name} (${file.type || 'unknown'}, ${Math.round(fileContent.length / 1024)}KB) ---\n`;
-                    queryWithAttachments += `Content Preview: ${contentPreview}\n`;
-                    queryWithAttachments += `Total Length: ${textContent.length} characters\n--- END FILE SUMMARY ---\n`;
-                  } else {
-                    queryWithAttachments += `\n--- FILE: ${file.name} ---\n[FILE NOT ACCESSIBLE]\n--- END FILE SUMMARY ---\n`;
-                  }
-                } catch (error) {
-                  console.error(`Error reading file ${file.name}:`, error);
-                  queryWithAttachments += `\n--- FILE: ${file.name} ---\n[ERROR: Could not read file]\n--- END FILE SUMMARY ---\n`;
-                }
-              }
-              
-              queryWithAttachments += `\n*Above are file summaries. Note: Full file content available if needed for analysis. Reference files by name in your response.*`;
-            }
-            
-            // Call individual AI methods with complete query including attachments
-            switch (aiProvider) {
-              case 'openai':
-                aiResult = await aiService.queryOpenAI(queryWithAttachments);
-                break;
-              case 'anthropic':
-                aiResult = await aiService.queryAnthropic(queryWithAttachments);
-                break;
-              case 'google':
-                aiResult = await aiService.queryGemini(queryWithAttachments);
-                break;
-              case 'perplexity':
-                aiResult = await aiService.queryPerplexity(queryWithAttachments);
-                break;
-              case 'grok':
-                aiResult = await aiService.queryGrok(queryWithAttachments);
-                break;
-              case 'deepseek':
-                aiResult = await aiService.queryDeepSeek(queryWithAttachments);
-                break;
-              case 'mistral':
-                aiResult = { success: false, error: "Mistral AI not yet implemented" };
-                break;
-              default:
-                aiResult = { success: false, error: `Unknown provider: ${aiProvider}` };
-            }
+            // Query the provider with complete query including attachments
+            const aiResult = await queryProvider(aiService, aiProvider, queryWithAttachments, {
+              ...providerOptions[aiProvider],
+              attachments,
+              cache,
+              signal,
+              onQueued: trackQueuePosition(response)
+            }, enableTools ? { userId, conversationId: convId, attachedFiles } : null);
             
             console.log(`✅ ${aiProvider} response: ${aiResult.success ? 'SUCCESS' : 'FAILED - ' + aiResult.error}`);
             
-            if (aiResult.success && aiResult.content) {
-              await storage.updateResponseContent(response.id, aiResult.content, "complete");
-            } else {
-              await storage.updateResponseContent(response.id, aiResult.error || "Unknown error", "error");
-            }
+            await saveAIResult(response, aiResult);
           } catch (error: any) {
             console.error(`❌ Error processing ${aiProvider}:`, error.message);
             await storage.updateResponseContent(response.id, `Error: ${error.message}`, "error");
+          } finally {
+            cancellationRegistry.release(response.id);
+          }
+        });
+
+        return response;
+      });
+
+      const responses = await Promise.all(responsePromises);
+      
+      // Asked within a conversation that is being judged blind
+      const listed = responses.map(r => ({
+        id: r.id,
+        aiProvider: r.aiProvider,
+        content: r.content,
+        status: r.status,
+        timestamp: r.createdAt?.toISOString()
+      }));
+      res.json({
+        conversationId: convId,
+        responses: conversationId ? await maskForBlindJudging(await storage.getConversation(convId!), listed) : listed
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Stream DIVE responses over Server-Sent Events (Protected route)
+  // Emits start, delta, complete, error and done events; final text is still persisted per response
+  app.post("/api/query/stream", authenticateToken, async (req: any, res) => {
+    const { query, selectedAIs, attachedFiles = [], enableTools = false } = req.body as QueryRequest & { attachedFiles?: any[] };
+    const userId = req.user.userId;
+
+    if (!query) {
+      return res.status(400).json({ message: "Query is required" });
+    }
+
+    if (!selectedAIs || !Array.isArray(selectedAIs) || selectedAIs.length === 0) {
+      return res.status(400).json({ message: "Providers array is required" });
+    }
+
+    const parsedOptions = providerOptionsSchema.optional().safeParse(req.body.providerOptions);
+    if (!parsedOptions.success) {
+      return res.status(400).json({ message: "Invalid provider options", errors: parsedOptions.error.errors });
+    }
+    const providerOptions = parsedOptions.data || {};
+
+    const parsedCache = cacheOptionsSchema.optional().safeParse(req.body.cache);
+    if (!parsedCache.success) {
+      return res.status(400).json({ message: "Invalid cache options", errors: parsedCache.error.errors });
+    }
+    const cache = parsedCache.data;
+
+    const user = await storage.getUser(userId);
+    let credentials: Record<string, string> = {};
+    if (user?.encryptedCredentials?.encrypted) {
+      try {
+        credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+      } catch (error) {
+        return res.status(400).json({ message: "Failed to decrypt credentials" });
+      }
+    }
+
+    // Keep persisting results if the client goes away, just stop writing to the socket
+    const sendEvent = openEventStream(res);
+
+    try {
+      const conversation = await storage.createConversation(userId, {
+        title: query.substring(0, 50) + (query.length > 50 ? "..." : ""),
+        query,
+        mode: 'dive',
+        attachedFiles: attachedFiles.map((file: any) => ({
+          id: file.id || file.name,
+          filename: file.name,
+          size: file.size || 0,
+          type: file.type || 'unknown',
+          objectPath: file.path || '',
+          uploadedAt: new Date().toISOString()
+        }))
+      });
+
+      const aiService = new AIService(credentials, userId);
+      const responses = await Promise.all(selectedAIs.map(aiProvider => storage.createResponse({
+        conversationId: conversation.id,
+        aiProvider,
+        content: "",
+        status: "pending",
+        metadata: buildGenerationMetadata(aiService, aiProvider, providerOptions[aiProvider])
+      })));
+
+      sendEvent('start', {
+        conversationId: conversation.id,
+        responses: responses.map(r => ({
+          id: r.id,
+          aiProvider: r.aiProvider,
+          content: r.content,
+          status: r.status,
+          timestamp: r.createdAt?.toISOString()
+        }))
+      });
+
+      const { prompt: queryWithAttachments, attachments } = await buildQueryWithAttachments(query, attachedFiles);
+
+      await Promise.all(responses.map(async (response) => {
+        const startedAt = Date.now();
+        const signal = cancellationRegistry.register(conversation.id, response.id);
+        try {
+          const options = {
+            ...providerOptions[response.aiProvider],
+            attachments,
+            cache,
+            signal,
+            onQueued: (position: number | null) => sendEvent('queued', { responseId: response.id, aiProvider: response.aiProvider, position })
+          };
+          const sendDelta = (delta: string) => {
+            sendEvent('delta', { responseId: response.id, aiProvider: response.aiProvider, delta });
+          };
+          // Tool rounds are not streamed; the final answer arrives as a single delta
+          let aiResult: AIServiceResponse;
+          if (enableTools) {
+            aiResult = await queryProvider(aiService, response.aiProvider, queryWithAttachments, options, { userId, conversationId: conversation.id, attachedFiles });
+            if (aiResult.success && aiResult.content) sendDelta(aiResult.content);
+          } else {
+            aiResult = await aiService.stream(response.aiProvider, queryWithAttachments, sendDelta, options);
           }
+          const responseTimeMs = String(Date.now() - startedAt);
+
+          await saveAIResult(response, aiResult, { responseTimeMs });
+          if (aiResult.cancelled) {
+            sendEvent('cancelled', { responseId: response.id, aiProvider: response.aiProvider });
+          } else if (aiResult.success && aiResult.content) {
+            sendEvent('complete', {
+              responseId: response.id,
+              aiProvider: response.aiProvider,
+              content: aiResult.content,
+              responseTimeMs,
+              inputTokens: aiResult.usage?.inputTokens ?? null,
+              outputTokens: aiResult.usage?.outputTokens ?? null,
+              costUsd: aiResult.costUsd ?? null,
+              toolCalls: aiResult.toolLog ?? [],
+              cache: aiResult.cache ?? null
+            });
+          } else {
+            sendEvent('error', { responseId: response.id, aiProvider: response.aiProvider, error: aiResult.error || "Unknown error" });
+          }
+        } catch (error: any) {
+          console.error(`❌ Error streaming ${response.aiProvider}:`, error.message);
+          await storage.updateResponseContent(response.id, `Error: ${error.message}`, "error");
+          sendEvent('error', { responseId: response.id, aiProvider: response.aiProvider, error: error.message });
+        } finally {
+          cancellationRegistry.release(response.id);
+        }
+      }));
+
+      sendEvent('done', { conversationId: conversation.id });
+    } catch (error: any) {
+      sendEvent('error', { error: error.message });
+    } finally {
+      res.end();
+    }
+  });
+
+  // Get conversation responses (Protected route)
+  app.get("/api/conversations/:id/responses", authenticateToken, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const responses = await storage.getConversationResponses(id);
+
+      const listed = responses.map(r => ({
+        id: r.id,
+        aiProvider: r.aiProvider,
+        content: r.content,
+        status: r.status,
+        timestamp: r.createdAt?.toISOString(),
+        metadata: r.metadata,
+        workStep: r.workStep,
+        turnId: r.turnId,
+        inputTokens: r.inputTokens,
+        outputTokens: r.outputTokens,
+        costUsd: r.costUsd,
+        award: r.award,
+        awardBlind: r.awardBlind,
+        rating: r.rating
+      }));
+
+      // Judged blind: answers that arrived since the last listing get labels, and only labelled answers are listed
+      const conversation = await storage.getConversation(id);
+      if (conversation && isBlind(conversation)) {
+        const judgedIds = new Set(judgedResponses(responses).map(r => r.id));
+        return res.json(await maskForBlindJudging(conversation, listed.filter(r => judgedIds.has(r.id))));
+      }
+
+      res.json(listed);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Ask a follow-up in an existing conversation; each provider sees its own prior exchanges (Protected route)
+  app.post("/api/conversations/:id/follow-up", authenticateToken, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { query, selectedAIs } = req.body as FollowUpRequest;
+      const userId = req.user.userId;
+
+      if (!query || !query.trim()) {
+        return res.status(400).json({ message: "Query is required" });
+      }
+
+      const conversation = await storage.getConversation(id);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const [turns, existingResponses] = await Promise.all([
+        storage.getConversationTurns(id),
+        storage.getConversationResponses(id)
+      ]);
+
+      const providers = selectedAIs?.length
+        ? selectedAIs
+        : Array.from(new Set(existingResponses.filter(r => !r.turnId && !r.workStep && !isSynthesis(r)).map(r => r.aiProvider)));
+
+      if (providers.length === 0) {
+        return res.status(400).json({ message: "Providers array is required" });
+      }
+
+      const parsedOptions = providerOptionsSchema.optional().safeParse(req.body.providerOptions);
+      if (!parsedOptions.success) {
+        return res.status(400).json({ message: "Invalid provider options", errors: parsedOptions.error.errors });
+      }
+      const providerOptions = parsedOptions.data || {};
+
+      const parsedCache = cacheOptionsSchema.optional().safeParse(req.body.cache);
+      if (!parsedCache.success) {
+        return res.status(400).json({ message: "Invalid cache options", errors: parsedCache.error.errors });
+      }
+      const cache = parsedCache.data;
+
+      const user = await storage.getUser(userId);
+      let credentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
+        try {
+          credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+        } catch (error) {
+          return res.status(400).json({ message: "Failed to decrypt credentials" });
+        }
+      }
+
+      const aiService = new AIService(credentials, userId);
+      const turn = await storage.createConversationTurn({
+        conversationId: id,
+        turnNumber: turns.length + 1,
+        query: query.trim()
+      });
+
+      const responses = await Promise.all(providers.map(async (aiProvider) => {
+        const response = await storage.createResponse({
+          conversationId: id,
+          aiProvider,
+          content: "",
+          status: "pending",
+          turnId: turn.id,
+          metadata: buildGenerationMetadata(aiService, aiProvider, providerOptions[aiProvider])
+        });
+
+        const history = buildProviderHistory(conversation, turns, existingResponses, aiProvider);
+        const signal = cancellationRegistry.register(id, response.id);
+
+        // Query AI in background
+        setImmediate(async () => {
+          try {
+            const aiResult = await aiService.query(aiProvider, turn.query, {
+              ...providerOptions[aiProvider],
+              history,
+              cache,
+              signal,
+              onQueued: trackQueuePosition(response)
+            });
+            await saveAIResult(response, aiResult);
+          } catch (error: any) {
+            console.error(`❌ Error processing follow-up for ${aiProvider}:`, error.message);
+            await storage.updateResponseContent(response.id, `Error: ${error.message}`, "error");
+          } finally {
+            cancellationRegistry.release(response.id);
+          }
+        });
+
+        return response;
+      }));
+
+      res.json({
+        conversationId: id,
+        turn: {
+          id: turn.id,
+          turnNumber: turn.turnNumber,
+          query: turn.query,
+          timestamp: turn.createdAt?.toISOString()
+        },
+        responses: await maskForBlindJudging(await storage.getConversation(id), responses.map(r => ({
+          id: r.id,
+          aiProvider: r.aiProvider,
+          content: r.content,
+          status: r.status,
+          turnId: r.turnId,
+          timestamp: r.createdAt?.toISOString()
+        })))
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Merge the completed answers to a query into one, marking agreement, disagreement and single-source
+  // claims; stored as a synthesis response linked to its sources (Protected route)
+  app.post("/api/conversations/:id/synthesize", authenticateToken, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { synthesizerAI, turnId = null } = req.body;
+      const userId = req.user.userId;
+
+      const conversation = await storage.getConversation(id);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const parsedOptions = generationOptionsSchema.optional().safeParse(req.body.options);
+      if (!parsedOptions.success) {
+        return res.status(400).json({ message: "Invalid generation options", errors: parsedOptions.error.errors });
+      }
+      const parsedCache = cacheOptionsSchema.optional().safeParse(req.body.cache);
+      if (!parsedCache.success) {
+        return res.status(400).json({ message: "Invalid cache options", errors: parsedCache.error.errors });
+      }
+
+      let query = conversation.query;
+      if (turnId) {
+        const turn = (await storage.getConversationTurns(id)).find(t => t.id === turnId);
+        if (!turn) {
+          return res.status(404).json({ message: "Turn not found" });
+        }
+        query = turn.query;
+      }
+
+      const sources = selectSynthesisSources(await storage.getConversationResponses(id), turnId);
+      if (sources.length < 2) {
+        return res.status(400).json({ message: "At least two completed responses are needed to synthesize" });
+      }
+
+      const user = await storage.getUser(userId);
+      let credentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
+        try {
+          credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+        } catch (error) {
+          return res.status(400).json({ message: "Failed to decrypt credentials" });
+        }
+      }
+
+      const aiService = new AIService(credentials, userId);
+      if (!synthesizerAI || !aiService.hasProvider(synthesizerAI)) {
+        return res.status(400).json({ message: "Unsupported synthesizer AI" });
+      }
+
+      const synthesis: SynthesisProvenance = {
+        synthesizedBy: synthesizerAI,
+        turnId,
+        sources: sources.map((r, index) => ({ number: index + 1, responseId: r.id, aiProvider: r.aiProvider }))
+      };
+      const metadata: Record<string, any> = { ...buildGenerationMetadata(aiService, synthesizerAI, parsedOptions.data), synthesis };
+      const response = await storage.createResponse({
+        conversationId: id,
+        aiProvider: SYNTHESIS_PROVIDER,
+        content: "",
+        status: "pending",
+        turnId,
+        metadata
+      });
+      const signal = cancellationRegistry.register(id, response.id);
+
+      setImmediate(async () => {
+        try {
+          const { result, provenance } = await synthesizeResponses(aiService, synthesizerAI, query, sources, {
+            ...parsedOptions.data,
+            cache: parsedCache.data,
+            signal,
+            onQueued: trackQueuePosition(response)
+          });
+          await saveAIResult({ ...response, metadata: { ...response.metadata, synthesis: { ...synthesis, ...provenance } } }, result);
+        } catch (error: any) {
+          console.error(`❌ Error synthesizing conversation ${id}:`, error.message);
+          await storage.updateResponseContent(response.id, `Error: ${error.message}`, "error");
+        } finally {
+          cancellationRegistry.release(response.id);
+        }
+      });
+
+      // The synthesis names its sources' providers, so its metadata is withheld while judging is blind
+      const [listed] = await maskForBlindJudging(conversation, [{
+        id: response.id,
+        aiProvider: response.aiProvider,
+        content: response.content,
+        status: response.status,
+        turnId: response.turnId,
+        metadata: response.metadata,
+        timestamp: response.createdAt?.toISOString()
+      }]);
+      res.json(listed);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Have one provider score the completed answers to a query and propose medals; stored apart from human awards (Protected route)
+  app.post("/api/conversations/:id/judge", authenticateToken, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.userId;
+
+      const conversation = await storage.getConversation(id);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const parsed = judgeRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid judge request", errors: parsed.error.errors });
+      }
+      const { judgeAI, turnId = null, options, cache } = parsed.data;
+
+      let query = conversation.query;
+      if (turnId) {
+        const turn = (await storage.getConversationTurns(id)).find(t => t.id === turnId);
+        if (!turn) {
+          return res.status(404).json({ message: "Turn not found" });
+        }
+        query = turn.query;
+      }
+
+      const sources = selectSynthesisSources(await storage.getConversationResponses(id), turnId);
+      if (sources.length < 2) {
+        return res.status(400).json({ message: "At least two completed responses are needed to judge" });
+      }
+
+      const user = await storage.getUser(userId);
+      let credentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
+        try {
+          credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+        } catch (error) {
+          return res.status(400).json({ message: "Failed to decrypt credentials" });
+        }
+      }
+
+      const aiService = new AIService(credentials, userId);
+      if (!aiService.hasProvider(judgeAI)) {
+        return res.status(400).json({ message: "Unsupported judge AI" });
+      }
+
+      const { result, run } = await judgeResponses(aiService, judgeAI, id, query, sources, { ...options, cache });
+      if (!run) {
+        return res.status(500).json({ message: result.error || "Judging failed" });
+      }
+      res.json({ ...run, costUsd: result.costUsd ?? null });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Judging runs of a conversation, newest first, next to the human awards they can be compared with (Protected route)
+  app.get("/api/conversations/:id/judge", authenticateToken, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const responses = await storage.getConversationResponses(conversation.id);
+      res.json({
+        runs: await getJudgeRuns(conversation.id),
+        humanAwards: Object.fromEntries(responses.filter(r => r.award).map(r => [r.id, r.award]))
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Align the completed answers to a query claim by claim and mark what each one alone says (Protected route)
+  app.post("/api/conversations/:id/diff", authenticateToken, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.userId;
+
+      const conversation = await storage.getConversation(id);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const parsed = responseDiffRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid diff request", errors: parsed.error.errors });
+      }
+      const { turnId = null, ...options } = parsed.data;
+
+      const sources = selectSynthesisSources(await storage.getConversationResponses(id), turnId);
+      if (sources.length < 2) {
+        return res.status(400).json({ message: "At least two completed responses are needed to compare" });
+      }
+
+      const user = await storage.getUser(userId);
+      let credentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
+        try {
+          credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+        } catch (error) {
+          return res.status(400).json({ message: "Failed to decrypt credentials" });
+        }
+      }
+
+      const diff = await diffResponses(new AIService(credentials, userId), sources, options);
+      if (conversation.blindJudging && isBlind(conversation)) {
+        const { labels } = conversation.blindJudging;
+        diff.responses = diff.responses.map(response => ({ ...response, aiProvider: labels[response.responseId] ?? 'Unlabelled' }));
+      }
+      res.json(diff);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Blind judging state; provider identities are included only once revealed (Protected route)
+  const blindJudgingStatus = (conversation: Conversation, responses: Response[]) => {
+    const state = conversation.blindJudging;
+    const revealed = !!state?.revealedAt;
+    return {
+      enabled: !!state?.enabled,
+      labels: state?.labels ?? {},
+      startedAt: state?.startedAt ?? null,
+      revealedAt: state?.revealedAt ?? null,
+      canReveal: !!state?.enabled && !revealed && canReveal(responses),
+      identities: revealed
+        ? Object.fromEntries(responses.filter(r => state!.labels[r.id]).map(r => [r.id, r.aiProvider]))
+        : null,
+    };
+  };
+
+  app.get("/api/conversations/:id/blind-judging", authenticateToken, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json(blindJudgingStatus(conversation, await storage.getConversationResponses(conversation.id)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Turn blind judging on (with freshly shuffled labels) or off (Protected route)
+  app.post("/api/conversations/:id/blind-judging", authenticateToken, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const parsed = blindJudgingRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid blind judging request", errors: parsed.error.errors });
+      }
+
+      const responses = await storage.getConversationResponses(conversation.id);
+      if (parsed.data.enabled && isBlind(conversation)) {
+        return res.json(blindJudgingStatus(conversation, responses));
+      }
+      // Awards already given blind keep their flag when judging is switched off
+      const blindJudging = parsed.data.enabled
+        ? startBlindJudging(responses)
+        : conversation.blindJudging && { ...conversation.blindJudging, enabled: false };
+      const updated = await storage.updateConversation(conversation.id, { blindJudging });
+      res.json(blindJudgingStatus(updated!, responses));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Reveal who wrote each labelled answer; refused until at least one award was given blind (Protected route)
+  app.post("/api/conversations/:id/blind-judging/reveal", authenticateToken, async (req: any, res) => {
+    try {
+      const conversation = await storage.getConversation(req.params.id);
+      if (!conversation || conversation.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      if (!conversation.blindJudging || !isBlind(conversation)) {
+        return res.status(409).json({ message: "Conversation is not being judged blind" });
+      }
+
+      const responses = await storage.getConversationResponses(conversation.id);
+      if (!canReveal(responses)) {
+        return res.status(409).json({ message: "Award at least one response before revealing identities" });
+      }
+
+      const updated = await storage.updateConversation(conversation.id, {
+        blindJudging: { ...conversation.blindJudging, revealedAt: new Date().toISOString() },
+      });
+      res.json(blindJudgingStatus(updated!, responses));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Cancel everything still running in a conversation and halt the rest of a WORK run (Protected route)
+  app.post("/api/conversations/:id/cancel", authenticateToken, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const conversation = await storage.getConversation(id);
+      if (!conversation || conversation.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      cancellationRegistry.cancelConversation(id);
+
+      // Mark rows now rather than waiting for the aborted jobs; they write the same status
+      const pending = (await storage.getConversationResponses(id)).filter(r => r.status === 'pending');
+      await Promise.all(pending.map(r => storage.updateResponseContent(r.id, CANCELLED_MESSAGE, "cancelled")));
+
+      const workflowState = conversation.workflowState;
+      if (workflowState?.steps?.length && workflowState.status !== 'complete_awaiting_feedback') {
+        await storage.updateConversation(id, {
+          workflowState: { ...workflowState, status: 'cancelled', cancelledAt: new Date().toISOString() }
         });
+      }
 
-        return response;
-      });
+      res.json({ conversationId: id, cancelledResponseIds: pending.map(r => r.id) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const responses = await Promise.all(responsePromises);
-      
-      res.json({
-        conversationId: convId,
-        responses: responses.map(r => ({
-          id: r.id,
-          aiProvider: r.aiProvider,
-          content: r.content,
-          status: r.status,
-          timestamp: r.createdAt?.toISOString()
-        }))
-      });
+  // Cancel a single pending response (Protected route)
+  app.post("/api/responses/:id/cancel", authenticateToken, async (req: any, res) => {
+    try {
+      const response = await storage.getResponse(req.params.id);
+      const conversation = response && await storage.getConversation(response.conversationId);
+      if (!response || !conversation || conversation.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+
+      if (response.status !== 'pending') {
+        return res.status(409).json({ message: `Response is already ${response.status}` });
+      }
+
+      cancellationRegistry.cancelResponse(response.id);
+      await storage.updateResponseContent(response.id, CANCELLED_MESSAGE, "cancelled");
+
+      res.json({ id: response.id, status: "cancelled" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get conversation responses (Protected route)
-  app.get("/api/conversations/:id/responses", authenticateToken, async (req: any, res) => {
+  // Get follow-up turns for a conversation (Protected route)
+  app.get("/api/conversations/:id/turns", authenticateToken, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const responses = await storage.getConversationResponses(id);
-      
-      res.json(responses.map(r => ({
-        id: r.id,
-        aiProvider: r.aiProvider,
-        content: r.content,
-        status: r.status,
-        timestamp: r.createdAt?.toISOString(),
-        metadata: r.metadata,
-        workStep: r.workStep
+      const conversation = await storage.getConversation(id);
+      if (!conversation || conversation.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const turns = await storage.getConversationTurns(id);
+      res.json(turns.map(t => ({
+        id: t.id,
+        turnNumber: t.turnNumber,
+        query: t.query,
+        timestamp: t.createdAt?.toISOString()
       })));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -982,6 +1805,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Semantic search over past conversations; indexes new ones first (Protected route)
+  app.post("/api/search/semantic", authenticateToken, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const parsed = semanticSearchSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid search request", errors: parsed.error.errors });
+      }
+
+      const user = await storage.getUser(userId);
+      let credentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
+        credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+      }
+
+      const aiService = new AIService(credentials, userId);
+      if (!aiService.getEmbeddingProvider()) {
+        return res.status(400).json({ message: "No embedding provider configured; add an OpenAI, Gemini or Mistral API key, or an embedding model on a custom endpoint" });
+      }
+
+      const { query, ...options } = parsed.data;
+      const result = await semanticSearch(aiService, userId, query, options);
+      res.json({
+        ...result,
+        matches: result.matches.map(match => ({
+          sourceType: match.sourceType,
+          sourceId: match.sourceId,
+          conversationId: match.conversationId,
+          chunkIndex: match.chunkIndex,
+          content: match.content,
+          score: match.score,
+        })),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // === DISPOSABLE TOKEN SYSTEM ===
 
   // Create disposable access token (Protected route)
@@ -1735,7 +2596,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         credentials = decryptCredentials(user.encryptedCredentials.encrypted);
       }
       
-      const aiService = new AIService(credentials);
+      const aiService = new AIService(credentials, userId);
       
       // Create review prompt
       const fullPrompt = `🏊‍♂️ SWIM MEET - POST-WORK REVIEW
@@ -1770,29 +2631,10 @@ Focus on accuracy, completeness, and value to the user.`;
       });
 
       // Query the reviewing AI
-      let aiResult;
-      switch (targetAI) {
-        case 'openai':
-          aiResult = await aiService.queryOpenAI(fullPrompt);
-          break;
-        case 'anthropic':
-          aiResult = await aiService.queryAnthropic(fullPrompt);
-          break;
-        case 'google':
-          aiResult = await aiService.queryGemini(fullPrompt);
-          break;
-        case 'perplexity':
-          aiResult = await aiService.queryPerplexity(fullPrompt);
-          break;
-        case 'grok':
-          aiResult = await aiService.queryGrok(fullPrompt);
-          break;
-        default:
-          aiResult = { success: false, error: `Unknown AI provider: ${targetAI}` };
-      }
+      const aiResult = await aiService.query(targetAI, fullPrompt);
 
       if (aiResult.success && aiResult.content) {
-        await storage.updateResponseContent(response.id, aiResult.content, "complete");
+        await saveAIResult(response, aiResult);
         
         res.json({
           message: `Successfully forwarded to ${targetAI} for review`,
@@ -1804,7 +2646,7 @@ Focus on accuracy, completeness, and value to the user.`;
           }
         });
       } else {
-        await storage.updateResponseContent(response.id, aiResult.error || "Review failed", "error");
+        await saveAIResult(response, { ...aiResult, error: aiResult.error || "Review failed" });
         res.status(500).json({ message: `Failed to get review from ${targetAI}: ${aiResult.error}` });
       }
       
@@ -1881,6 +2723,7 @@ Truth, Accuracy, and User Sovereignty`;
         uploadedFiles.push({
           id: filename,
           name: file.originalname,
+          type: file.mimetype,
           size: file.size,
           path: `/api/files/download/${filename}`
         });
@@ -1935,7 +2778,7 @@ Truth, Accuracy, and User Sovereignty`;
         }
       }
 
-      const aiService = new AIService(credentials);
+      const aiService = new AIService(credentials, userId);
       const workflowEngine = new WorkflowEngine(aiService);
       
       // Validate workflow
@@ -1969,8 +2812,15 @@ Truth, Accuracy, and User Sovereignty`;
         for (const step of result.steps) {
           await storage.createResponse({
             conversationId: conversation.id,
-            aiProvider: step.node.provider || step.node.type,
+            aiProvider: step.provider || step.node.provider || step.node.type,
             content: typeof step.result === 'string' ? step.result : JSON.stringify(step.result),
+            ...(step.provider ? {
+              handoffData: {
+                assignedProvider: step.node.provider,
+                usedProvider: step.provider,
+                fallbackFailures: (step.fallbackFailures || []).map(({ providerId, error }) => ({ providerId, error }))
+              }
+            } : {}),
             status: step.status === 'completed' ? 'complete' : step.status,
             responseTime: step.endTime && step.startTime ? 
               step.endTime.getTime() - step.startTime.getTime() : undefined
@@ -1984,6 +2834,8 @@ Truth, Accuracy, and User Sovereignty`;
           steps: result.steps.map(step => ({
             nodeId: step.nodeId,
             nodeTitle: step.node.title,
+            provider: step.provider,
+            fallbackFailures: step.fallbackFailures?.map(({ providerId, error }) => ({ providerId, error })),
             status: step.status,
             result: step.result,
             error: step.error,
@@ -2100,7 +2952,7 @@ Truth, Accuracy, and User Sovereignty`;
         }
       }
 
-      const aiService = new AIService(credentials);
+      const aiService = new AIService(credentials, userId);
       const humanized = await aiService.humanizeResponse(response);
       
       res.json({ humanizedResponse: humanized });
@@ -2125,7 +2977,7 @@ Truth, Accuracy, and User Sovereignty`;
         }
       }
 
-      const aiService = new AIService(credentials);
+      const aiService = new AIService(credentials, userId);
       
       // Use Perplexity for fact-checking as it has web search capabilities
       const factCheckPrompt = `Please fact-check the following response to the query "${query}":
@@ -2141,7 +2993,7 @@ Provide a detailed fact-check including:
 
 Be thorough and objective in your analysis.`;
 
-      const factCheckResult = await aiService.queryPerplexity(factCheckPrompt);
+      const factCheckResult = await aiService.query('perplexity', factCheckPrompt);
       
       res.json({ factCheck: factCheckResult.content || factCheckResult.error });
     } catch (error: any) {
@@ -2165,7 +3017,7 @@ Be thorough and objective in your analysis.`;
         }
       }
 
-      const aiService = new AIService(credentials);
+      const aiService = new AIService(credentials, userId);
       
       const replyPrompt = `Based on this AI response to the query "${originalQuery}", generate a thoughtful follow-up question or comment that would help clarify, expand on, or challenge the response constructively.
 
@@ -2182,7 +3034,7 @@ Generate a meaningful reply that:
 
 Provide only the reply text, no explanations.`;
 
-      const replyResult = await aiService.queryAnthropic(replyPrompt);
+      const replyResult = await aiService.query('anthropic', replyPrompt);
       
       res.json({ reply: replyResult.content || replyResult.error });
     } catch (error: any) {
@@ -2191,17 +3043,63 @@ Provide only the reply text, no explanations.`;
   });
 
   // Award response
-  app.post("/api/responses/:id/award", async (req, res) => {
-    const { id } = req.params;
-    const { award } = req.body;
-    
-    const updatedResponse = await storage.updateResponse(id, { award });
-    
-    res.json({
-      success: true,
-      message: `Response awarded ${award}`,
-      response: updatedResponse
-    });
+  // Records whether the provider was hidden when the award was given, so stats can separate blind from sighted awards
+  app.post("/api/responses/:id/award", authenticateToken, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.userId;
+      const parsed = responseAwardSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid award", errors: parsed.error.errors });
+      }
+      const { award } = parsed.data;
+
+      const response = await storage.getResponse(id);
+      if (!response) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+      const conversation = await storage.getConversation(response.conversationId);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+      const awardBlind = award ? isBlind(conversation) : null;
+
+      const updatedResponse = await storage.updateResponse(id, { award, awardBlind });
+
+      res.json({
+        success: true,
+        message: award ? `Response awarded ${award}` : 'Award removed',
+        // Identity stays hidden while judging is blind
+        response: isBlind(conversation) ? maskResponse(updatedResponse, conversation.blindJudging!) : updatedResponse
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Thumbs up or down on a response; breaks ties between equal awards on the leaderboard
+  app.post("/api/responses/:id/rating", authenticateToken, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.userId;
+      const parsed = responseRatingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid rating", errors: parsed.error.errors });
+      }
+
+      const response = await storage.getResponse(id);
+      if (!response) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+      const conversation = await storage.getConversation(response.conversationId);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+      await storage.updateResponse(id, { rating: parsed.data.rating });
+      res.json({ success: true, rating: parsed.data.rating });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
   });
 
   // Get AI provider statistics
@@ -2222,7 +3120,15 @@ Provide only the reply text, no explanations.`;
           ) as success_rate,
           SUM(CASE WHEN award = 'gold' THEN 1 ELSE 0 END) as gold_awards,
           SUM(CASE WHEN award = 'silver' THEN 1 ELSE 0 END) as silver_awards,
-          SUM(CASE WHEN award = 'bronze' THEN 1 ELSE 0 END) as bronze_awards
+          SUM(CASE WHEN award = 'bronze' THEN 1 ELSE 0 END) as bronze_awards,
+          SUM(CASE WHEN award = 'titanic' THEN 1 ELSE 0 END) as titanic_awards,
+          SUM(CASE WHEN award = 'gold' AND award_blind THEN 1 ELSE 0 END) as blind_gold_awards,
+          SUM(CASE WHEN award = 'silver' AND award_blind THEN 1 ELSE 0 END) as blind_silver_awards,
+          SUM(CASE WHEN award = 'bronze' AND award_blind THEN 1 ELSE 0 END) as blind_bronze_awards,
+          SUM(CASE WHEN award = 'titanic' AND award_blind THEN 1 ELSE 0 END) as blind_titanic_awards,
+          COALESCE(SUM(input_tokens), 0) as input_tokens,
+          COALESCE(SUM(output_tokens), 0) as output_tokens,
+          COALESCE(SUM(cost_usd), 0) as cost_usd
         FROM responses 
         GROUP BY ai_provider
       `);
@@ -2239,10 +3145,29 @@ Provide only the reply text, no explanations.`;
           awards: {
             gold: parseInt(row.gold_awards as string),
             silver: parseInt(row.silver_awards as string), 
-            bronze: parseInt(row.bronze_awards as string)
+            bronze: parseInt(row.bronze_awards as string),
+            titanic: parseInt(row.titanic_awards as string)
+          },
+          // Awards given under blind judging; the rest were given with the provider visible
+          blindAwards: {
+            gold: parseInt(row.blind_gold_awards as string),
+            silver: parseInt(row.blind_silver_awards as string),
+            bronze: parseInt(row.blind_bronze_awards as string),
+            titanic: parseInt(row.blind_titanic_awards as string)
+          },
+          sightedAwards: {
+            gold: parseInt(row.gold_awards as string) - parseInt(row.blind_gold_awards as string),
+            silver: parseInt(row.silver_awards as string) - parseInt(row.blind_silver_awards as string),
+            bronze: parseInt(row.bronze_awards as string) - parseInt(row.blind_bronze_awards as string),
+            titanic: parseInt(row.titanic_awards as string) - parseInt(row.blind_titanic_awards as string)
           },
           avgResponseTimeMs: null, // Would need additional calculation
-          verificationRate: 0 // Would need additional calculation
+          verificationRate: 0, // Would need additional calculation
+          usage: {
+            inputTokens: Number(row.input_tokens),
+            outputTokens: Number(row.output_tokens),
+            costUsd: Number(row.cost_usd)
+          }
         };
       }
 
@@ -2253,12 +3178,151 @@ Provide only the reply text, no explanations.`;
     }
   });
 
+  // Elo and Bradley-Terry ratings from pairwise matches between awarded DIVE answers (Protected route)
+  app.get("/api/stats/leaderboard", authenticateToken, async (req: any, res) => {
+    try {
+      const parsed = leaderboardQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid leaderboard query", errors: parsed.error.errors });
+      }
+      res.json(await buildLeaderboard(parsed.data));
+    } catch (error: any) {
+      console.error('Error building leaderboard:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Monthly agreement between each judge's latest verdicts and human awards (Protected route)
+  app.get("/api/stats/judge-agreement", authenticateToken, async (req: any, res) => {
+    try {
+      res.json(await getJudgeAgreement());
+    } catch (error: any) {
+      console.error('Error getting judge agreement:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Token usage and cost for the signed-in user, rolled up per provider and per conversation (Protected route)
+  app.get("/api/stats/usage", authenticateToken, async (req: any, res) => {
+    try {
+      const { db } = await import("./db");
+      const { sql } = await import("drizzle-orm");
+      const userId = req.user.userId;
+
+      const byProviderResult = await db.execute(sql`
+        SELECT 
+          r.ai_provider,
+          COUNT(*) as total_responses,
+          COALESCE(SUM(r.input_tokens), 0) as input_tokens,
+          COALESCE(SUM(r.output_tokens), 0) as output_tokens,
+          COALESCE(SUM(r.cost_usd), 0) as cost_usd,
+          SUM(CASE WHEN r.input_tokens IS NOT NULL AND r.cost_usd IS NULL THEN 1 ELSE 0 END) as unpriced_responses
+        FROM responses r
+        JOIN conversations c ON c.id = r.conversation_id
+        WHERE c.user_id = ${userId}
+        GROUP BY r.ai_provider
+        ORDER BY cost_usd DESC
+      `);
+
+      const byConversationResult = await db.execute(sql`
+        SELECT 
+          c.id,
+          c.title,
+          c.mode,
+          c.created_at,
+          COUNT(r.id) as total_responses,
+          COALESCE(SUM(r.input_tokens), 0) as input_tokens,
+          COALESCE(SUM(r.output_tokens), 0) as output_tokens,
+          COALESCE(SUM(r.cost_usd), 0) as cost_usd
+        FROM conversations c
+        LEFT JOIN responses r ON r.conversation_id = c.id
+        WHERE c.user_id = ${userId}
+        GROUP BY c.id, c.title, c.mode, c.created_at
+        ORDER BY c.created_at DESC
+        LIMIT 100
+      `);
+
+      const byProvider = byProviderResult.rows.map((row: any) => ({
+        aiProvider: String(row.ai_provider),
+        totalResponses: Number(row.total_responses),
+        inputTokens: Number(row.input_tokens),
+        outputTokens: Number(row.output_tokens),
+        costUsd: Number(row.cost_usd),
+        unpricedResponses: Number(row.unpriced_responses)
+      }));
+
+      res.json({
+        totals: byProvider.reduce((totals, provider) => ({
+          totalResponses: totals.totalResponses + provider.totalResponses,
+          inputTokens: totals.inputTokens + provider.inputTokens,
+          outputTokens: totals.outputTokens + provider.outputTokens,
+          costUsd: totals.costUsd + provider.costUsd
+        }), { totalResponses: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }),
+        byProvider,
+        byConversation: byConversationResult.rows.map((row: any) => ({
+          conversationId: String(row.id),
+          title: String(row.title),
+          mode: String(row.mode),
+          createdAt: row.created_at,
+          totalResponses: Number(row.total_responses),
+          inputTokens: Number(row.input_tokens),
+          outputTokens: Number(row.output_tokens),
+          costUsd: Number(row.cost_usd)
+        }))
+      });
+    } catch (error: any) {
+      console.error('Error getting usage stats:', error);
+      res.status(500).json({ error: 'Failed to get usage stats' });
+    }
+  });
+
+  // Token usage and cost per user across the platform (Admin route)
+  app.get("/api/stats/usage/users", authenticateToken, isAdmin, async (req: any, res) => {
+    try {
+      const { db } = await import("./db");
+      const { sql } = await import("drizzle-orm");
+
+      const byUserResult = await db.execute(sql`
+        SELECT 
+          u.id,
+          u.username,
+          COUNT(r.id) as total_responses,
+          COALESCE(SUM(r.input_tokens), 0) as input_tokens,
+          COALESCE(SUM(r.output_tokens), 0) as output_tokens,
+          COALESCE(SUM(r.cost_usd), 0) as cost_usd
+        FROM users u
+        LEFT JOIN conversations c ON c.user_id = u.id
+        LEFT JOIN responses r ON r.conversation_id = c.id
+        GROUP BY u.id, u.username
+        ORDER BY cost_usd DESC
+      `);
+
+      res.json(byUserResult.rows.map((row: any) => ({
+        userId: String(row.id),
+        username: String(row.username),
+        totalResponses: Number(row.total_responses),
+        inputTokens: Number(row.input_tokens),
+        outputTokens: Number(row.output_tokens),
+        costUsd: Number(row.cost_usd)
+      })));
+    } catch (error: any) {
+      console.error('Error getting user usage stats:', error);
+      res.status(500).json({ error: 'Failed to get usage stats' });
+    }
+  });
+
   // TURN Mode verification - AI-to-AI fact-checking
   app.post("/api/responses/:id/verify", async (req, res) => {
     try {
       const { id } = req.params;
       const { verifierAI } = req.body;
       const userId = req.body.userId || "default-user";
+
+      // Re-verification runs can reuse a cached report for the same response and verifier
+      const parsedCache = cacheOptionsSchema.optional().safeParse(req.body.cache);
+      if (!parsedCache.success) {
+        return res.status(400).json({ message: "Invalid cache options", errors: parsedCache.error.errors });
+      }
       
       const response = await storage.getResponse(id);
       if (!response) {
@@ -2283,17 +3347,22 @@ Provide only the reply text, no explanations.`;
       // Update verification status to pending
       await storage.updateResponse(id, { verificationStatus: "pending" });
 
-      const aiService = new AIService(credentials);
+      const aiService = new AIService(credentials, userId);
       
-      // Include attachment context with file summaries to avoid massive prompts
+      // Include attachment context with file summaries to avoid massive prompts; media goes to the verifier as-is
       let attachmentContext = "";
+      const mediaAttachments: MediaAttachment[] = [];
       if (conversation.attachedFiles && conversation.attachedFiles.length > 0) {
         attachmentContext = `\n\nATTACHED FILES SUMMARY:\n`;
         
         for (const file of conversation.attachedFiles) {
           try {
-            const fileContent = await localStorage.getFile(file.id || file.filename);
-            if (fileContent) {
+            const attachment = await loadAttachment(file);
+            const fileContent = attachment?.data;
+            if (attachment && attachment.kind !== 'text') {
+              mediaAttachments.push(attachment);
+              attachmentContext += `\n--- FILE: ${file.filename} (${attachment.mimeType}) ---\n[Attached to this message]\n--- END FILE SUMMARY ---\n`;
+            } else if (fileContent) {
               const textContent = fileContent.toString('utf-8');
               const contentPreview = textContent.length > 300 ? 
                 textContent.substring(0, 300) + '... [TRUNCATED FOR VERIFICATION]' : 
@@ -2342,58 +3411,29 @@ Respond in JSON format with:
   "recommendations": ["specific suggestions for improvement"]
 }`;
 
-      let verificationResult;
-      
-      // Route to appropriate AI service based on verifier
-      if (verifierAI === 'openai') {
-        verificationResult = await aiService.queryOpenAI(verificationPrompt);
-      } else if (verifierAI === 'anthropic') {
-        verificationResult = await aiService.queryAnthropic(verificationPrompt);
-      } else if (verifierAI === 'google') {
-        verificationResult = await aiService.queryGemini(verificationPrompt);
-      } else if (verifierAI === 'perplexity') {
-        verificationResult = await aiService.queryPerplexity(verificationPrompt);
-      } else {
+      if (!aiService.hasProvider(verifierAI)) {
         return res.status(400).json({ message: "Unsupported verifier AI" });
       }
 
-      if (verificationResult.error) {
+      const verificationResult = await aiService.queryStructured(verifierAI, verificationPrompt, verificationReportSchema, {
+        schemaName: 'verification_report',
+        attachments: mediaAttachments,
+        cache: parsedCache.data
+      });
+
+      if (!verificationResult.success || !verificationResult.data) {
         await storage.updateResponse(id, { verificationStatus: "failed" });
-        return res.status(500).json({ message: verificationResult.error });
+        return res.status(500).json({ message: verificationResult.error || "Verifier returned no result" });
       }
 
-      // Parse verification results - handle JSON within text
-      let parsedResults;
-      try {
-        // First try direct JSON parse
-        parsedResults = JSON.parse(verificationResult.content || '{}');
-      } catch (error) {
-        try {
-          // Try to extract JSON from markdown code blocks
-          const jsonMatch = verificationResult.content?.match(/```json\s*([\s\S]*?)\s*```/);
-          if (jsonMatch) {
-            parsedResults = JSON.parse(jsonMatch[1]);
-          } else {
-            throw new Error('No JSON found');
-          }
-        } catch (error2) {
-          // Fallback: create structured results from unstructured content
-          parsedResults = {
-            accuracyScore: 7,
-            factualErrors: [],
-            strengths: ["Analysis provided"],
-            weaknesses: ["Could not parse detailed verification"],
-            overallAssessment: verificationResult.content || "Analysis completed",
-            recommendations: ["Improve response format parsing"]
-          };
-        }
-      }
+      const parsedResults = verificationResult.data;
 
       // Add verifier info and update response
       const verificationData = {
         ...parsedResults,
         verifiedBy: verifierAI,
-        verifiedAt: new Date().toISOString()
+        verifiedAt: new Date().toISOString(),
+        ...(verificationResult.cache ? { cache: verificationResult.cache } : {})
       };
 
       // Store verification data in metadata
@@ -2426,6 +3466,76 @@ Respond in JSON format with:
     }
   });
 
+  // TURN verification claim by claim: each atomic claim gets a supported/refuted/unverifiable verdict
+  // from every verifier, located in the response so the exact sentence can be highlighted (Protected route)
+  app.post("/api/responses/:id/verify-claims", authenticateToken, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.userId;
+
+      const parsed = claimVerificationRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid claim verification request", errors: parsed.error.errors });
+      }
+      const { verifiers, extractorAI, cache } = parsed.data;
+
+      const response = await storage.getResponse(id);
+      if (!response) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+      const conversation = await storage.getConversation(response.conversationId);
+      if (!conversation || conversation.userId !== userId) {
+        return res.status(404).json({ message: "Response not found" });
+      }
+      if (response.status !== 'complete' || !response.content) {
+        return res.status(400).json({ message: "Only completed responses can be verified" });
+      }
+
+      let query = conversation.query;
+      if (response.turnId) {
+        query = (await storage.getConversationTurns(conversation.id)).find(t => t.id === response.turnId)?.query ?? query;
+      }
+
+      const user = await storage.getUser(userId);
+      let credentials: Record<string, string> = {};
+      if (user?.encryptedCredentials?.encrypted) {
+        try {
+          credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+        } catch (error) {
+          return res.status(400).json({ message: "Failed to decrypt credentials" });
+        }
+      }
+
+      const aiService = new AIService(credentials, userId);
+      const unsupported = [...verifiers, ...(extractorAI ? [extractorAI] : [])].filter(providerId => !aiService.hasProvider(providerId));
+      if (unsupported.length > 0) {
+        return res.status(400).json({ message: `Unsupported verifier AI: ${unsupported.join(', ')}` });
+      }
+
+      await storage.updateResponse(id, { verificationStatus: "pending" });
+      let claimVerification: ClaimVerification;
+      try {
+        claimVerification = await verifyClaims(aiService, Array.from(new Set(verifiers)), query, response.content, { extractorAI, cache });
+      } catch (error: any) {
+        await storage.updateResponse(id, { verificationStatus: "failed" });
+        return res.status(500).json({ message: error.message });
+      }
+
+      const updatedResponse = await storage.updateResponse(id, {
+        verificationStatus: "complete",
+        metadata: { ...(response.metadata || {}), claimVerification }
+      });
+
+      res.json({
+        success: true,
+        claimVerification,
+        responseMetadata: updatedResponse.metadata
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Share TURN analysis with original AI
   app.post("/api/responses/:id/share-critique", async (req, res) => {
     try {
@@ -2457,7 +3567,7 @@ Respond in JSON format with:
         }
       }
 
-      const aiService = new AIService(credentials);
+      const aiService = new AIService(credentials, userId);
       const latestVerification = verificationResults[verificationResults.length - 1];
       
       const sharePrompt = `TURN MODE CRITIQUE SHARING
@@ -2484,21 +3594,13 @@ Please respond with:
 
 Keep your response professional and constructive.`;
 
-      let shareResult;
-      
-      // Route to the original AI provider
-      if (response.aiProvider === 'openai') {
-        shareResult = await aiService.queryOpenAI(sharePrompt);
-      } else if (response.aiProvider === 'anthropic') {
-        shareResult = await aiService.queryAnthropic(sharePrompt);
-      } else if (response.aiProvider === 'google') {
-        shareResult = await aiService.queryGemini(sharePrompt);
-      } else if (response.aiProvider === 'perplexity') {
-        shareResult = await aiService.queryPerplexity(sharePrompt);
-      } else {
+      if (!aiService.hasProvider(response.aiProvider)) {
         return res.status(400).json({ message: "Unsupported AI provider for sharing" });
       }
 
+      // Route to the original AI provider
+      const shareResult = await aiService.query(response.aiProvider, sharePrompt);
+
       if (shareResult.error) {
         return res.status(500).json({ message: shareResult.error });
       }
@@ -2525,29 +3627,6 @@ Keep your response professional and constructive.`;
     }
   });
 
-  // Award response
-  app.post("/api/responses/:id/award", async (req, res) => {
-    try {
-      const { id } = req.params;
-      const { award } = req.body;
-      
-      // Update response metadata with award
-      const response = await storage.updateResponseMetadata(id, { award });
-      
-      res.json({ 
-        success: true, 
-        message: `Response awarded ${award}`,
-        response: {
-          id: response.id,
-          aiProvider: response.aiProvider,
-          award: response.metadata?.award
-        }
-      });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
-    }
-  });
-
   // Get workflow state for WORK mode
   app.get("/api/conversations/:conversationId/workflow", async (req, res) => {
     try {
@@ -2597,7 +3676,7 @@ Keep your response professional and constructive.`;
         }
       }
       
-      const aiService = new AIService(credentials);
+      const aiService = new AIService(credentials, userId);
       const stepResult = await processWorkflowStepNew(id, workflowState, currentStep, aiService);
       
       // Update workflow state
@@ -2952,19 +4031,30 @@ Create the definitive response that incorporates the best of all previous work.`
 }
 
 // ENHANCED workflow step processing with attachment support and user feedback
-async function processWorkflowStepEnhanced(conversationId: string, workflowState: any, stepIndex: number, aiService: any): Promise<any> {
+async function processWorkflowStepEnhanced(conversationId: string, workflowState: any, stepIndex: number, aiService: AIService): Promise<any> {
   if (stepIndex >= workflowState.steps.length) return null;
+
+  // A cancelled run stops before its next step starts
+  const latest = await storage.getConversation(conversationId);
+  if (latest?.workflowState?.status === 'cancelled') {
+    console.log(`⏹️ WORK MODE: Run cancelled, skipping step ${stepIndex + 1}`);
+    return null;
+  }
   
   const step = workflowState.steps[stepIndex];
   const storageInstance = storage;
   
+  const generationOptions = workflowState.sharedContext.providerOptions?.[step.assignedAI];
+
   // Create response record
   const response = await storageInstance.createResponse({
     conversationId,
     aiProvider: step.assignedAI,
     content: "",
-    status: "pending"
+    status: "pending",
+    metadata: buildGenerationMetadata(aiService, step.assignedAI, generationOptions)
   });
+  const signal = cancellationRegistry.register(conversationId, response.id);
   
   try {
     // Build enhanced context with attachments and core values
@@ -2977,16 +4067,20 @@ async function processWorkflowStepEnhanced(conversationId: string, workflowState
 
 **Original Query**: ${workflowState.sharedContext.originalQuery}`;
 
-    // Add attachment context with ACTUAL FILE CONTENT
+    // Add attachment context with ACTUAL FILE CONTENT; images and PDFs are sent as media
+    const mediaAttachments: MediaAttachment[] = [];
     if (workflowState.sharedContext.attachedFiles?.length > 0) {
       contextPrompt += `\n\n**ATTACHED FILES WITH CONTENT:**\n`;
       
       for (const file of workflowState.sharedContext.attachedFiles) {
         try {
           // Get file content from local storage
-          const fileContent = await localStorage.getFile(file.id || file.filename);
-          if (fileContent) {
-            const textContent = fileContent.toString('utf-8');
+          const attachment = await loadAttachment(file);
+          if (attachment && attachment.kind !== 'text') {
+            mediaAttachments.push(attachment);
+            contextPrompt += `\n--- FILE: ${file.filename} (${attachment.mimeType}) ---\n[Attached to this message as ${attachment.kind === 'image' ? 'an image' : 'a PDF document'}]\n--- END OF FILE ---\n`;
+          } else if (attachment) {
+            const textContent = attachment.data.toString('utf-8');
             contextPrompt += `\n--- FILE: ${file.filename} (${file.type}) ---\n${textContent}\n--- END OF FILE ---\n`;
           } else {
             contextPrompt += `\n--- FILE: ${file.filename} (${file.type}) ---\n[FILE CONTENT NOT ACCESSIBLE]\n--- END OF FILE ---\n`;
@@ -3023,53 +4117,54 @@ async function processWorkflowStepEnhanced(conversationId: string, workflowState
     }
     
     // Query the specific AI directly (ensures no exclusion bugs)
-    let aiResult;
     console.log(`🤖 Querying ${step.assignedAI} for Step ${stepIndex + 1}...`);
+    const toolContext = workflowState.sharedContext.enableTools && latest
+      ? { userId: latest.userId, conversationId, attachedFiles: workflowState.sharedContext.attachedFiles || [] }
+      : null;
+    // The assigned provider first, then the step's fallbacks in order, each with its own generation options
+    const aiResult = await callWithFallback([step.assignedAI, ...(step.fallbackProviders || [])], provider => queryProvider(aiService, provider, contextPrompt, {
+      ...workflowState.sharedContext.providerOptions?.[provider],
+      attachments: mediaAttachments,
+      signal,
+      onQueued: trackQueuePosition(response)
+    }, toolContext));
+    const usedProvider = aiResult.providerId;
+    const fallbackUpdates = {
+      aiProvider: usedProvider,
+      handoffData: {
+        ...(response.handoffData || {}),
+        assignedProvider: step.assignedAI,
+        usedProvider,
+        fallbackFailures: aiResult.fallbackFailures.map(({ providerId, error }) => ({ providerId, error }))
+      }
+    };
     
-    switch (step.assignedAI) {
-      case 'openai':
-        aiResult = await aiService.queryOpenAI(contextPrompt);
-        break;
-      case 'anthropic':
-        aiResult = await aiService.queryAnthropic(contextPrompt);
-        break;
-      case 'google':
-        aiResult = await aiService.queryGemini(contextPrompt);
-        break;
-      case 'perplexity':
-        aiResult = await aiService.queryPerplexity(contextPrompt);
-        break;
-      case 'grok':
-        aiResult = await aiService.queryGrok(contextPrompt);
-        break;
-      case 'deepseek':
-        aiResult = await aiService.queryDeepSeek(contextPrompt);
-        break;
-      default:
-        aiResult = { success: false, error: `Unknown AI provider: ${step.assignedAI}` };
-    }
-    
-    console.log(`✅ ${step.assignedAI} Step ${stepIndex + 1}: ${aiResult.success ? 'SUCCESS' : 'FAILED - ' + aiResult.error}`);
+    console.log(`✅ ${usedProvider} Step ${stepIndex + 1}: ${aiResult.success ? 'SUCCESS' : 'FAILED - ' + aiResult.error}${usedProvider !== step.assignedAI ? ` (fallback for ${step.assignedAI})` : ''}`);
     
     if (aiResult.success && aiResult.content) {
       // Update response
-      await storageInstance.updateResponseContent(response.id, aiResult.content, "complete");
+      await saveAIResult(response, aiResult, fallbackUpdates);
       
       // Update step in workflow state
       step.completed = true;
       step.output = aiResult.content;
       step.completedAt = new Date().toISOString();
+      step.usedProvider = usedProvider;
       
       // Update collaborative document
       const conversation = await storageInstance.getConversation(conversationId);
+      const cancelled = conversation?.workflowState?.status === 'cancelled';
       const currentDoc = conversation?.workflowState?.collaborativeDoc || "";
-      const updatedDoc = currentDoc + `\n## Step ${stepIndex + 1}: ${step.assignedAI}\n*${step.objective}*\n\n${aiResult.content}\n\n---\n`;
+      const author = usedProvider === step.assignedAI ? usedProvider : `${usedProvider} (fallback for ${step.assignedAI})`;
+      const updatedDoc = currentDoc + `\n## Step ${stepIndex + 1}: ${author}\n*${step.objective}*\n\n${aiResult.content}\n\n---\n`;
       
       // Update the workflow state with the new step data  
       const updatedWorkflowState = {
         ...workflowState,
         collaborativeDoc: updatedDoc,
-        currentStep: stepIndex + 1
+        currentStep: stepIndex + 1,
+        // Keep a cancel that arrived while this step was running
+        ...(cancelled ? { status: 'cancelled', cancelledAt: conversation?.workflowState?.cancelledAt } : {})
       };
       
       // Also update the step data in the workflow state
@@ -3082,7 +4177,9 @@ async function processWorkflowStepEnhanced(conversationId: string, workflowState
       console.log(`✅ WORK MODE: Step ${stepIndex + 1} complete by ${step.assignedAI}. Next step: ${stepIndex + 2}/${workflowState.steps.length}`);
       
       // ENHANCED continuation to next step with user feedback capability
-      if (stepIndex + 1 < workflowState.steps.length) {
+      if (cancelled) {
+        console.log(`⏹️ WORK MODE: Run cancelled after step ${stepIndex + 1}`);
+      } else if (stepIndex + 1 < workflowState.steps.length) {
         console.log(`🔄 ENHANCED WORK MODE: Immediately continuing to step ${stepIndex + 2}/${workflowState.steps.length} with ${workflowState.steps[stepIndex + 1].assignedAI}`);
         
         // Direct function call with enhanced processing
@@ -3106,19 +4203,21 @@ async function processWorkflowStepEnhanced(conversationId: string, workflowState
       
       return {
         id: response.id,
-        aiProvider: response.aiProvider,
+        aiProvider: usedProvider,
         content: aiResult.content,
         status: "complete",
         timestamp: new Date().toISOString(),
         workflowStep: stepIndex + 1
       };
     } else {
-      await storageInstance.updateResponseContent(response.id, aiResult.error || "Unknown error", "error");
+      await saveAIResult(response, aiResult, fallbackUpdates);
       return null;
     }
   } catch (error) {
     console.error("Workflow step error:", error);
     await storageInstance.updateResponseContent(response.id, `Error: ${error}`, "error");
     return null;
+  } finally {
+    cancellationRegistry.release(response.id);
   }
 }
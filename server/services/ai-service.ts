@@ -1,6 +1,36 @@
-import OpenAI from "openai";
-import Anthropic from '@anthropic-ai/sdk';
-import { GoogleGenAI } from "@google/genai";
+import {
+  getProvider,
+  hasProvider,
+  listProviders,
+  findCustomEndpoint,
+  getCustomEndpoints,
+  customProviderInfo,
+  createCustomAdapter,
+  callWithPolicy,
+  acquireSlot,
+  withFixtures,
+  type AIServiceResponse,
+  type CallResult,
+  type Embedding,
+  type EmbeddingResponse,
+  type MediaAttachment,
+  type ProviderAttempt,
+  type ProviderAdapter,
+  type ProviderInfo,
+  type QueryOptions,
+  type StreamDeltaHandler,
+  type TokenUsage,
+  type ToolCall,
+  type ToolCallRecord,
+  type ToolDefinition,
+  type ToolTurn,
+  type TranscriptionRecord,
+} from "./providers";
+import { zodResponseFormat } from "openai/helpers/zod";
+import type { ZodType } from "zod";
+import { calculateCost } from "./pricing";
+import { transcribeOnce, type Transcript } from "./attachments";
+import { cacheKey, responseCache } from "./response-cache";
 
 /*
 Follow these instructions when using this blueprint:
@@ -9,309 +39,374 @@ Follow these instructions when using this blueprint:
 3. Note that the newest Gemini model series is "gemini-2.5-flash" or "gemini-2.5-pro"
 */
 
-export interface AIServiceResponse {
-  success: boolean;
-  content?: string;
-  error?: string;
-}
+export type { AIServiceResponse } from "./providers";
 
-export class AIService {
-  private openai: OpenAI | null = null;
-  private anthropic: Anthropic | null = null;
-  private gemini: GoogleGenAI | null = null;
-  private perplexity: OpenAI | null = null;
-  private grok: OpenAI | null = null;
-  private copilotApiKey: string | null = null;
-  private llamaApiKey: string | null = null;
-
-  constructor(credentials: Record<string, string>) {
-    this.initializeClients(credentials);
-  }
+export type StructuredResponse<T> = AIServiceResponse & { data?: T };
 
-  private initializeClients(credentials: Record<string, string>) {
-    // Use stored credentials or fallback to environment variables
-    const openaiKey = credentials.openai || process.env.OPENAI_API_KEY;
-    const anthropicKey = credentials.anthropic || process.env.ANTHROPIC_API_KEY;
-    const geminiKey = credentials.google || process.env.GEMINI_API_KEY;
-    const perplexityKey = credentials.perplexity || process.env.PERPLEXITY_API_KEY;
-    const xaiKey = credentials.grok || process.env.XAI_API_KEY;
-    const copilotKey = credentials.microsoft || process.env.COPILOT_API_KEY || "dfa5965f91msh742cae2064e8d2bp13f2a9jsn65b7d5c83e6b";
-    const llamaKey = credentials.llama || process.env.LLAMA_API_KEY || "dfa5965f91msh742cae2064e8d2bp13f2a9jsn65b7d5c83e6b";
-
-    if (openaiKey) {
-      this.openai = new OpenAI({ apiKey: openaiKey });
-    }
+export type StructuredQueryOptions = Omit<QueryOptions, 'responseSchema'> & {
+  schemaName?: string; // Letters, digits, _ and -
+  maxRepairs?: number; // Extra tries after a reply fails validation; default 2
+};
 
-    if (anthropicKey) {
-      this.anthropic = new Anthropic({ apiKey: anthropicKey });
-    }
+export type ToolRunner = (call: ToolCall) => Promise<{ content: string; isError: boolean }>;
 
-    if (geminiKey) {
-      this.gemini = new GoogleGenAI({ apiKey: geminiKey });
-    }
+export type ToolQueryOptions = QueryOptions & {
+  maxToolRounds?: number; // Rounds of tool calls before the model must answer; default 5
+};
 
-    if (perplexityKey) {
-      this.perplexity = new OpenAI({ 
-        baseURL: "https://api.perplexity.ai", 
-        apiKey: perplexityKey 
-      });
-    }
+export type EmbedOptions = Pick<QueryOptions, 'model' | 'signal' | 'policy' | 'onQueued'> & {
+  batchSize?: number; // Inputs per provider call; default 64
+};
 
-    if (xaiKey) {
-      this.grok = new OpenAI({ 
-        baseURL: "https://api.x.ai/v1", 
-        apiKey: xaiKey 
-      });
-    }
+// Embedding providers tried, in order, when AI_EMBEDDING_PROVIDER does not name one
+const EMBEDDING_PROVIDERS = ['openai', 'google', 'mistral'];
 
-    if (copilotKey) {
-      this.copilotApiKey = copilotKey;
-    }
+// Vision-capable providers tried, in order, to extract text from media for providers that cannot read it
+const TRANSCRIPTION_PROVIDERS = ['google', 'openai', 'anthropic'];
 
-    if (llamaKey) {
-      this.llamaApiKey = llamaKey;
+const TRANSCRIPTION_PROMPT = `Transcribe all text in the attached file verbatim, keeping its structure (headings, lists, tables). Then briefly describe any images, charts, stamps, signatures or handwriting that carry meaning. Output only the transcription and description.`;
+
+export class AIService {
+  private adapters = new Map<string, ProviderAdapter>();
+
+  // userId selects the per-user rate limits; without it only the global limits apply
+  constructor(private credentials: Record<string, string>, private userId?: string) {}
+
+  // Adapters are created on first use so unused providers never build SDK clients.
+  // AI_FIXTURE_MODE wraps them to record or replay traffic; see providers/fixtures.
+  private getAdapter(providerId: string): ProviderAdapter | undefined {
+    let adapter = this.adapters.get(providerId);
+    if (!adapter) {
+      const registration = getProvider(providerId);
+      const customEndpoint = registration ? undefined : findCustomEndpoint(this.credentials, providerId);
+      if (registration) {
+        adapter = registration.create(this.credentials);
+      } else if (customEndpoint) {
+        adapter = createCustomAdapter(customEndpoint);
+      } else {
+        return undefined;
+      }
+      adapter = withFixtures(adapter);
+      this.adapters.set(providerId, adapter);
     }
+    return adapter;
   }
 
-  async queryOpenAI(prompt: string): Promise<AIServiceResponse> {
-    if (!this.openai) {
-      return { success: false, error: "OpenAI API key not configured" };
-    }
+  hasProvider(providerId: string): boolean {
+    return hasProvider(providerId) || !!findCustomEndpoint(this.credentials, providerId);
+  }
 
-    try {
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o", // newest OpenAI model is "gpt-4o"
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2000,
-      });
+  // Built-in providers followed by this user's custom endpoints
+  listProviders(): ProviderInfo[] {
+    return [...listProviders(), ...getCustomEndpoints(this.credentials).map(customProviderInfo)];
+  }
 
-      return {
-        success: true,
-        content: response.choices[0].message.content || "No response generated",
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: `OpenAI error: ${error.message}`,
-      };
+  getProviderInfo(providerId: string): ProviderInfo | undefined {
+    return this.listProviders().find(provider => provider.id === providerId);
+  }
+
+  isConfigured(providerId: string): boolean {
+    return this.getAdapter(providerId)?.isConfigured() ?? false;
+  }
+
+  // Every call runs under the provider's timeout/retry policy; see providers/resilience
+  async query(providerId: string, prompt: string, options: QueryOptions = {}): Promise<AIServiceResponse> {
+    const adapter = this.getAdapter(providerId);
+    if (!adapter) {
+      return { success: false, error: `Unsupported provider: ${providerId}` };
     }
+
+    return this.withCache(providerId, prompt, options, async () => {
+      const { policy, onQueued, attachments, cache, ...request } = options;
+      const { transcriptions, ...prepared } = await this.prepareAttachments(adapter, prompt, options);
+      return this.withSlot(providerId, options, async () => {
+        const result = await callWithPolicy(
+          providerId,
+          (signal) => adapter.query({ ...request, ...prepared, signal }),
+          { signal: options.signal, policy }
+        );
+        return withTranscriptions(this.withCost(providerId, options, result), transcriptions);
+      });
+    });
   }
 
-  async queryAnthropic(prompt: string): Promise<AIServiceResponse> {
-    if (!this.anthropic) {
-      return { success: false, error: "Anthropic API key not configured" };
+  // Streams token deltas where the provider supports it; otherwise emits the whole answer as one delta.
+  // Retries stop once any delta has been sent, since the client cannot take text back.
+  async stream(providerId: string, prompt: string, onDelta: StreamDeltaHandler, options: QueryOptions = {}): Promise<AIServiceResponse> {
+    const adapter = this.getAdapter(providerId);
+    if (!adapter) {
+      return { success: false, error: `Unsupported provider: ${providerId}` };
     }
 
-    try {
-      const response = await this.anthropic.messages.create({
-        model: "claude-sonnet-4-20250514", // newest Anthropic model
-        max_tokens: 2000,
-        messages: [{ role: 'user', content: prompt }],
+    let emitted = false;
+    const forward: StreamDeltaHandler = (delta) => {
+      emitted = true;
+      onDelta(delta);
+    };
+
+    if (adapter.stream) {
+      const result = await this.withCache(providerId, prompt, options, async () => {
+        const { policy, onQueued, attachments, cache, ...request } = options;
+        const { transcriptions, ...prepared } = await this.prepareAttachments(adapter, prompt, options);
+        return this.withSlot(providerId, options, async () => {
+          const result = await callWithPolicy(
+            providerId,
+            (signal) => adapter.stream!({ ...request, ...prepared, signal }, forward),
+            { signal: options.signal, canRetry: () => !emitted, policy }
+          );
+          return withTranscriptions(this.withCost(providerId, options, result), transcriptions);
+        });
       });
+      // A cached answer was never streamed
+      if (result.cache?.hit && result.content) {
+        onDelta(result.content);
+      }
+      return result;
+    }
 
-      return {
-        success: true,
-        content: response.content[0].type === 'text' ? response.content[0].text : "No text response",
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: `Anthropic error: ${error.message}`,
-      };
+    const result = await this.query(providerId, prompt, options);
+    if (result.success && result.content) {
+      onDelta(result.content);
     }
+    return result;
   }
 
-  async queryGemini(prompt: string): Promise<AIServiceResponse> {
-    if (!this.gemini) {
-      return { success: false, error: "Google AI API key not configured" };
+  // Cheap reachability probe for the health checker; never streamed and never priced
+  async checkHealth(providerId: string, options: Pick<QueryOptions, 'policy'> = {}): Promise<AIServiceResponse> {
+    const adapter = this.getAdapter(providerId);
+    if (!adapter) {
+      return { success: false, error: `Unsupported provider: ${providerId}` };
     }
 
-    try {
-      const response = await this.gemini.models.generateContent({
-        model: "gemini-2.5-flash", // newest Gemini model
-        contents: prompt,
-      });
+    return callWithPolicy(
+      providerId,
+      (signal) => adapter.checkHealth
+        ? adapter.checkHealth(signal)
+        : adapter.query({ prompt: "ping", maxTokens: 5, signal }),
+      { policy: options.policy }
+    );
+  }
 
-      return {
-        success: true,
-        content: response.text || "No response generated",
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: `Gemini error: ${error.message}`,
-      };
+  // Ask for JSON conforming to a Zod schema. Providers with native structured output receive the
+  // JSON Schema through their API; all of them also get it in the prompt. A reply that fails to parse
+  // or validate is sent back with the errors for another try, up to maxRepairs times.
+  // Schemas must stay within the strict subset OpenAI accepts (no optional fields; use nullable).
+  async queryStructured<T>(providerId: string, prompt: string, schema: ZodType<T>, options: StructuredQueryOptions = {}): Promise<StructuredResponse<T>> {
+    const { schemaName = 'response', maxRepairs = 2, ...queryOptions } = options;
+    const jsonSchema = zodResponseFormat(schema, schemaName).json_schema.schema as Record<string, unknown>;
+    const responseSchema = { name: schemaName, schema: jsonSchema };
+
+    let history = queryOptions.history ?? [];
+    let nextPrompt = `${prompt}\n\nRespond with only a JSON object conforming to this JSON Schema, with no other text:\n${JSON.stringify(jsonSchema)}`;
+    const totals: CallTotals = { attempts: [] };
+
+    for (let repair = 0; ; repair++) {
+      const result = await this.query(providerId, nextPrompt, { ...queryOptions, history, responseSchema });
+      addToTotals(totals, result);
+
+      if (!result.success || !result.content) {
+        return { ...result, ...totals };
+      }
+
+      const parsed = parseStructured(result.content, schema);
+      if (parsed.success) {
+        return { ...result, ...totals, data: parsed.data };
+      }
+      if (repair >= maxRepairs) {
+        return {
+          ...result,
+          ...totals,
+          success: false,
+          error: `${providerId} returned invalid structured output after ${repair + 1} tries: ${parsed.error}`,
+        };
+      }
+
+      history = [...history, { role: 'user', content: nextPrompt }, { role: 'assistant', content: result.content }];
+      nextPrompt = `That reply was not valid: ${parsed.error}\nReply again with only the corrected JSON object.`;
     }
   }
 
-  async queryMicrosoft(prompt: string): Promise<AIServiceResponse> {
-    if (!this.copilotApiKey) {
-      return { success: false, error: "Microsoft Copilot API key not configured" };
+  // Let the model call tools before answering. Each round's calls are run through runTool and the
+  // results sent back until the model answers in text or maxToolRounds is used up. Providers
+  // without tool support are queried plainly. Not streamed: tool rounds cannot be shown as deltas.
+  async queryWithTools(providerId: string, prompt: string, tools: ToolDefinition[], runTool: ToolRunner, options: ToolQueryOptions = {}): Promise<AIServiceResponse> {
+    const { maxToolRounds = 5, ...queryOptions } = options;
+    const adapter = this.getAdapter(providerId);
+    if (!adapter?.supportsTools?.() || tools.length === 0) {
+      return this.query(providerId, prompt, queryOptions);
     }
 
-    try {
-      const response = await fetch("https://copilot5.p.rapidapi.com/copilot", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-rapidapi-host": "copilot5.p.rapidapi.com",
-          "x-rapidapi-key": this.copilotApiKey,
-        },
-        body: JSON.stringify({
-          message: prompt,
-          conversation_id: null,
-          mode: "CHAT",
-          markdown: true,
-        }),
-      });
+    const toolTurns: ToolTurn[] = [];
+    const toolLog: ToolCallRecord[] = [];
+    const totals: CallTotals = { attempts: [] };
+
+    for (let round = 1; ; round++) {
+      const result = await this.query(providerId, prompt, { ...queryOptions, tools, toolTurns });
+      addToTotals(totals, result);
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (!result.success || !result.toolCalls?.length) {
+        return { ...result, ...totals, toolLog };
+      }
+      // Tools stay offered to the end (Anthropic rejects tool history without them), so a model
+      // still calling after the last round is cut off with whatever text it sent
+      if (round > maxToolRounds) {
+        const { toolCalls, ...rest } = result;
+        return result.content
+          ? { ...rest, ...totals, toolLog }
+          : { ...rest, ...totals, toolLog, success: false, error: `${providerId} was still calling tools after ${maxToolRounds} rounds` };
       }
 
-      const data = await response.json();
-      
-      return {
-        success: true,
-        content: data.data || data.message || "No response generated",
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: `Microsoft Copilot error: ${error.message}`,
-      };
+      const results = [];
+      for (const call of result.toolCalls) {
+        if (queryOptions.signal?.aborted) {
+          return { success: false, error: 'Cancelled', cancelled: true, ...totals, toolLog };
+        }
+        const startedAt = Date.now();
+        let outcome: { content: string; isError: boolean };
+        try {
+          outcome = await runTool(call);
+        } catch (error: any) {
+          outcome = { content: `Error: ${error.message}`, isError: true };
+        }
+        toolLog.push({
+          round,
+          name: call.name,
+          arguments: call.arguments,
+          result: outcome.content,
+          isError: outcome.isError,
+          durationMs: Date.now() - startedAt,
+        });
+        results.push({ callId: call.id, name: call.name, ...outcome });
+      }
+      toolTurns.push({ text: result.content || undefined, calls: result.toolCalls, results });
     }
   }
 
-  async queryPerplexity(prompt: string): Promise<AIServiceResponse> {
-    if (!this.perplexity) {
-      return { success: false, error: "Perplexity API key not configured" };
+  // Media the adapter cannot send natively is replaced by a text transcription appended to the prompt
+  private async prepareAttachments(adapter: ProviderAdapter, prompt: string, options: QueryOptions): Promise<{ prompt: string; attachments?: MediaAttachment[]; transcriptions: TranscriptionRecord[] }> {
+    const attachments = options.attachments ?? [];
+    const native = attachments.filter(attachment => adapter.supportsAttachment?.(attachment.mimeType));
+    const transcriptions: TranscriptionRecord[] = [];
+    let extractedText = "";
+
+    for (const attachment of attachments.filter(attachment => !native.includes(attachment))) {
+      const transcribed = await this.transcribeAttachment(attachment, options.signal);
+      if (transcribed) {
+        const { text, ...transcript } = transcribed.transcript;
+        transcriptions.push({ filename: attachment.filename, mimeType: attachment.mimeType, ...transcript, shared: transcribed.shared });
+      }
+      extractedText += `\n\n--- FILE: ${attachment.filename} (${attachment.mimeType}, text extracted) ---\n`;
+      extractedText += transcribed?.transcript.text ?? "[This file could not be read: the provider does not accept this file type and no vision-capable provider is configured to extract its text]";
+      extractedText += `\n--- END OF FILE ---`;
     }
 
-    try {
-      const response = await this.perplexity.chat.completions.create({
-        model: "sonar",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2000,
-        temperature: 0.2,
-      });
+    return { prompt: prompt + extractedText, ...(native.length > 0 ? { attachments: native } : {}), transcriptions };
+  }
 
-      return {
-        success: true,
-        content: response.choices[0].message.content || "No response generated",
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: `Perplexity error: ${error.message}`,
-      };
+  // Texts to unit-length vectors, in input order, sent in batches of batchSize. Vectors from different
+  // models are not comparable, so callers should store the returned model with them.
+  async embed(providerId: string, inputs: string[], options: EmbedOptions = {}): Promise<EmbeddingResponse> {
+    const adapter = this.getAdapter(providerId);
+    if (!adapter) {
+      return { success: false, error: `Unsupported provider: ${providerId}` };
+    }
+    const model = options.model || this.getProviderInfo(providerId)?.embeddingModel;
+    if (!adapter.embed || !model) {
+      return { success: false, error: `${providerId} does not support embeddings` };
     }
-  }
 
-  async queryGrok(prompt: string): Promise<AIServiceResponse> {
-    if (!this.grok) {
-      return { success: false, error: "Grok API key not configured" };
+    const { batchSize = 64, policy, signal } = options;
+    const embeddings: Embedding[] = [];
+    const totals: CallTotals = { attempts: [] };
+    for (let start = 0; start < inputs.length; start += batchSize) {
+      const batch = inputs.slice(start, start + batchSize);
+      const result = await this.withSlot(providerId, options, () => callWithPolicy(
+        providerId,
+        (batchSignal) => adapter.embed!({ inputs: batch, model, signal: batchSignal }),
+        { signal, policy }
+      ));
+      addToTotals(totals, result.usage ? { ...result, costUsd: calculateCost(result.model || model, result.usage) } : result);
+
+      if (!result.success || !result.embeddings) {
+        return { ...result, ...totals, success: false, embeddings: undefined, model };
+      }
+      if (result.embeddings.length !== batch.length) {
+        return { ...totals, success: false, model, error: `${providerId} returned ${result.embeddings.length} embeddings for ${batch.length} inputs` };
+      }
+      embeddings.push(...result.embeddings.map(normalizeVector));
     }
 
-    try {
-      const response = await this.grok.chat.completions.create({
-        model: "grok-2-1212",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2000,
-      });
+    return { success: true, embeddings, model, ...totals };
+  }
+
+  // AI_EMBEDDING_PROVIDER, else the first configured built-in provider that embeds, else a custom
+  // endpoint with an embedding model. Undefined when none is available.
+  getEmbeddingProvider(): string | undefined {
+    const canEmbed = (providerId: string) =>
+      this.isConfigured(providerId) && !!this.getAdapter(providerId)?.embed && !!this.getProviderInfo(providerId)?.embeddingModel;
 
-      return {
-        success: true,
-        content: response.choices[0].message.content || "No response generated",
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: `Grok error: ${error.message}`,
-      };
+    const preferred = process.env.AI_EMBEDDING_PROVIDER;
+    if (preferred) {
+      return canEmbed(preferred) ? preferred : undefined;
     }
+    const customIds = getCustomEndpoints(this.credentials).map(endpoint => customProviderInfo(endpoint).id);
+    return [...EMBEDDING_PROVIDERS, ...customIds].find(canEmbed);
   }
 
-  async queryDeepSeek(prompt: string): Promise<AIServiceResponse> {
-    return { success: false, error: "DeepSeek API not configured" };
+  // Null when no configured provider can read the file. shared: the transcript was made for another call.
+  transcribeAttachment(attachment: MediaAttachment, signal?: AbortSignal): Promise<{ transcript: Transcript; shared: boolean } | null> {
+    return transcribeOnce(attachment, async () => {
+      for (const providerId of TRANSCRIPTION_PROVIDERS) {
+        const adapter = this.getAdapter(providerId);
+        if (!adapter?.isConfigured() || !adapter.supportsAttachment?.(attachment.mimeType)) continue;
+
+        const result = await this.query(providerId, TRANSCRIPTION_PROMPT, { attachments: [attachment], maxTokens: 4000, signal });
+        if (result.success && result.content) {
+          return { text: result.content, providerId, model: result.model, usage: result.usage, costUsd: result.costUsd };
+        }
+        if (result.cancelled) return null;
+      }
+      return null;
+    });
   }
 
-  async queryLlama(prompt: string): Promise<AIServiceResponse> {
-    if (!this.llamaApiKey) {
-      return { success: false, error: "Llama API key not configured" };
+  // Goes through the response cache when the caller opted in. Tool rounds depend on server state
+  // and are never cached.
+  private withCache(providerId: string, prompt: string, options: QueryOptions, call: () => Promise<AIServiceResponse>): Promise<AIServiceResponse> {
+    if (!options.cache || options.tools?.length || options.toolTurns?.length) {
+      return call();
     }
+    const model = options.model || this.getProviderInfo(providerId)?.defaultModel;
+    const key = cacheKey({ userId: this.userId, providerId, model, prompt, options });
+    return responseCache.getOrCall(key, providerId, options.cache, call);
+  }
 
-    try {
-      const response = await fetch("https://meta-llama-3-8b.p.rapidapi.com/", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-rapidapi-host": "meta-llama-3-8b.p.rapidapi.com",
-          "x-rapidapi-key": this.llamaApiKey,
-        },
-        body: JSON.stringify({
-          model: "llama-3.1-8B-Instruct",
-          messages: [{ role: "user", content: prompt }],
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+  // Waits for a rate-limit slot (see providers/rate-limit); retries happen inside the slot
+  private async withSlot<T extends CallResult>(providerId: string, options: Pick<QueryOptions, 'signal' | 'onQueued'>, call: () => Promise<T>): Promise<T> {
+    const release = await acquireSlot(providerId, this.userId, { signal: options.signal, onQueued: options.onQueued });
+    if (!release) {
+      return { success: false, error: 'Cancelled', cancelled: true } as T;
+    }
 
-      const data = await response.json();
-      
-      return {
-        success: true,
-        content: data.choices?.[0]?.message?.content || data.data || data.message || "No response generated",
-      };
-    } catch (error: any) {
-      return {
-        success: false,
-        error: `Llama error: ${error.message}`,
-      };
+    try {
+      return await call();
+    } finally {
+      release();
     }
   }
 
+  // Price the call by the model that answered, falling back to the requested or default model
+  private withCost(providerId: string, options: QueryOptions, result: AIServiceResponse): AIServiceResponse {
+    if (!result.usage) return result;
+    const model = result.model || options.model || this.getProviderInfo(providerId)?.defaultModel;
+    return { ...result, model, costUsd: calculateCost(model, result.usage) };
+  }
+
   async queryMultiple(prompt: string, providers: string[]): Promise<Record<string, AIServiceResponse>> {
     const results: Record<string, AIServiceResponse> = {};
     
     const promises = providers.map(async (provider) => {
-      let result: AIServiceResponse;
-      
-      switch (provider) {
-        case 'openai':
-          result = await this.queryOpenAI(prompt);
-          break;
-        case 'anthropic':
-          result = await this.queryAnthropic(prompt);
-          break;
-        case 'google':
-          result = await this.queryGemini(prompt);
-          break;
-        case 'microsoft':
-          result = await this.queryMicrosoft(prompt);
-          break;
-        case 'perplexity':
-          result = await this.queryPerplexity(prompt);
-          break;
-        case 'grok':
-          result = await this.queryGrok(prompt);
-          break;
-        case 'deepseek':
-          result = await this.queryDeepSeek(prompt);
-          break;
-        case 'llama':
-          result = await this.queryLlama(prompt);
-          break;
-        case 'mistral':
-          result = { success: false, error: "Mistral AI not yet implemented" };
-          break;
-        default:
-          result = { success: false, error: `Unsupported provider: ${provider}` };
-      }
-      
-      results[provider] = result;
+      results[provider] = await this.query(provider, prompt);
     });
 
     await Promise.all(promises);
@@ -320,7 +415,7 @@ export class AIService {
 
   async humanizeResponse(response: string): Promise<string> {
     // Use Anthropic/Claude to humanize the response naturally
-    if (this.anthropic) {
+    if (this.isConfigured('anthropic')) {
       try {
         const humanizePrompt = `Please rewrite the following response to sound more natural and human-like while preserving all the factual content and meaning. Remove any AI-specific language, make it conversational, and ensure it flows naturally:
 
@@ -328,13 +423,12 @@ export class AIService {
 
 Provide only the humanized version, no explanations.`;
 
-        const result = await this.anthropic.messages.create({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 2000,
-          messages: [{ role: "user", content: humanizePrompt }]
-        });
+        const result = await this.query('anthropic', humanizePrompt);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
 
-        return result.content[0].type === 'text' ? result.content[0].text : response;
+        return result.content || response;
       } catch (error) {
         console.error('Humanization failed, using fallback:', error);
       }
@@ -357,3 +451,62 @@ Provide only the humanized version, no explanations.`;
     return humanized;
   }
 }
+
+// Running totals for methods that make several provider calls. Every call is billed, so report the sum.
+interface CallTotals {
+  attempts: ProviderAttempt[];
+  usage?: TokenUsage;
+  costUsd?: number | null;
+}
+
+function addToTotals(totals: CallTotals, result: Pick<AIServiceResponse, 'attempts' | 'usage' | 'costUsd'>): void {
+  totals.attempts.push(...(result.attempts ?? []));
+  if (result.usage) {
+    totals.usage = {
+      inputTokens: (totals.usage?.inputTokens ?? 0) + result.usage.inputTokens,
+      outputTokens: (totals.usage?.outputTokens ?? 0) + result.usage.outputTokens,
+    };
+    totals.costUsd = totals.costUsd === null || result.costUsd == null ? null : (totals.costUsd ?? 0) + result.costUsd;
+  }
+}
+
+// A transcription made for this call is billed to it; one made for another call is only recorded
+function withTranscriptions(result: AIServiceResponse, transcriptions: TranscriptionRecord[]): AIServiceResponse {
+  if (transcriptions.length === 0) return result;
+  const totals: CallTotals = { attempts: [], usage: result.usage, costUsd: result.costUsd };
+  transcriptions.filter(transcription => !transcription.shared).forEach(transcription => addToTotals(totals, transcription));
+  return { ...result, usage: totals.usage, costUsd: totals.costUsd, transcriptions };
+}
+
+// Scale to unit length so cosine similarity is a dot product; an all-zero vector stays as it is
+function normalizeVector(vector: Embedding): Embedding {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+// Models without native structured output often wrap the JSON in prose or a ```json fence
+function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) return fenced[1];
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return start >= 0 && end > start ? content.slice(start, end + 1) : content.trim();
+}
+
+function parseStructured<T>(content: string, schema: ZodType<T>): { success: true; data: T } | { success: false; error: string } {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(content));
+  } catch (error: any) {
+    return { success: false, error: `not valid JSON (${error.message})` };
+  }
+
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    error: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '),
+  };
+}
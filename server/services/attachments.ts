@@ -0,0 +1,95 @@
+import { createHash } from "crypto";
+import path from "path";
+import { localStorage } from "../local-storage";
+import { IMAGE_MIME_TYPES, PDF_MIME_TYPE, type MediaAttachment, type TokenUsage } from "./providers";
+
+// Attached files are routed by MIME type: images and PDFs go to the model as media,
+// everything else is read as UTF-8 text and inlined in the prompt as before.
+
+export type AttachmentKind = 'image' | 'pdf' | 'text';
+
+export interface LoadedAttachment extends MediaAttachment {
+  kind: AttachmentKind;
+}
+
+// Older clients did not send a type, so fall back to the extension
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': PDF_MIME_TYPE,
+};
+
+// Attachment records come in two shapes: { name, type } from the upload form and { filename, type } once stored
+export function detectMimeType(file: { type?: string; name?: string; filename?: string; id?: string }): string {
+  if (file.type && file.type !== 'unknown') {
+    return file.type.toLowerCase();
+  }
+  // Compressed uploads are stored as <id>_compressed<ext>.gz
+  const name = (file.name || file.filename || file.id || '').replace(/\.gz$/, '');
+  return EXTENSION_MIME_TYPES[path.extname(name).toLowerCase()] || 'text/plain';
+}
+
+export function attachmentKind(mimeType: string): AttachmentKind {
+  if (IMAGE_MIME_TYPES.includes(mimeType)) return 'image';
+  if (mimeType === PDF_MIME_TYPE) return 'pdf';
+  return 'text';
+}
+
+// Null when the file is no longer in local storage
+export async function loadAttachment(file: any): Promise<LoadedAttachment | null> {
+  const data = await localStorage.getFile(file.id || file.filename || file.name);
+  if (!data) return null;
+  const mimeType = detectMimeType(file);
+  return { filename: file.name || file.filename, mimeType, kind: attachmentKind(mimeType), data };
+}
+
+// Text extracted from media for providers that cannot read it, keyed by content hash so a file
+// shared by several providers or steps is only transcribed once. A transcription is cached while it
+// runs, so providers reading the same file at the same time wait for one call instead of each paying.
+const TRANSCRIPT_CACHE_LIMIT = 200;
+const transcripts = new Map<string, Promise<Transcript | null>>();
+
+export interface Transcript {
+  text: string;
+  providerId: string;
+  model?: string;
+  usage?: TokenUsage;
+  costUsd?: number | null;
+}
+
+function transcriptKey(attachment: MediaAttachment): string {
+  return createHash('sha256').update(attachment.mimeType).update(attachment.data).digest('hex');
+}
+
+// shared: the transcript came from an earlier or concurrent call, which was billed for it.
+// Null when transcribe found nothing; neither that nor a rejection is kept, so the next call tries again.
+export async function transcribeOnce(
+  attachment: MediaAttachment,
+  transcribe: () => Promise<Transcript | null>
+): Promise<{ transcript: Transcript; shared: boolean } | null> {
+  const key = transcriptKey(attachment);
+  const pending = transcripts.get(key);
+  if (pending) {
+    const shared = await pending.catch(() => null);
+    // A failed or cancelled leader says nothing about this call, so make it after all
+    if (shared) return { transcript: shared, shared: true };
+  }
+
+  if (transcripts.size >= TRANSCRIPT_CACHE_LIMIT) {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    transcripts.delete(transcripts.keys().next().value!);
+  }
+  const run = transcribe();
+  transcripts.set(key, run);
+  try {
+    const transcript = await run;
+    if (!transcript && transcripts.get(key) === run) transcripts.delete(key);
+    return transcript ? { transcript, shared: false } : null;
+  } catch (error) {
+    if (transcripts.get(key) === run) transcripts.delete(key);
+    throw error;
+  }
+}
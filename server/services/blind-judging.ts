@@ -0,0 +1,67 @@
+import type { BlindJudgingState, Conversation, Response } from "@shared/schema";
+import { isSynthesis } from "./synthesis";
+
+// Blind judging for DIVE: raters see each answer under a shuffled label ("Swimmer A", ...) rather than
+// its provider, award and rate them, and only then reveal who wrote what. Labels live in
+// conversations.blindJudging; each award records in responses.awardBlind whether it was given blind.
+
+// aiProvider reported for a response while its identity is hidden
+export const BLIND_PROVIDER = 'hidden';
+
+export function isBlind(conversation: Pick<Conversation, 'blindJudging'>): boolean {
+  return !!conversation.blindJudging?.enabled && !conversation.blindJudging.revealedAt;
+}
+
+// Answers that get a label. Syntheses are left out: they name the providers they draw on.
+export function judgedResponses(responses: Response[]): Response[] {
+  return responses.filter(response => !response.workStep && !isSynthesis(response));
+}
+
+function labelFor(index: number): string {
+  let name = '';
+  for (let n = index; n >= 0; n = Math.floor(n / 26) - 1) {
+    name = String.fromCharCode(65 + (n % 26)) + name;
+  }
+  return `Swimmer ${name}`;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = items.slice();
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Starting over, e.g. after a reveal, shuffles new labels
+export function startBlindJudging(responses: Response[]): BlindJudgingState {
+  const state: BlindJudgingState = { enabled: true, labels: {}, startedAt: new Date().toISOString() };
+  return labelNewResponses(state, responses) ?? state;
+}
+
+// Labels answers that arrived since the last call (e.g. a follow-up turn), continuing the lettering
+// in shuffled order so the label says nothing about which provider was asked first.
+// Returns null when every answer already has a label.
+export function labelNewResponses(state: BlindJudgingState, responses: Response[]): BlindJudgingState | null {
+  const unlabelled = judgedResponses(responses).filter(response => !state.labels[response.id]);
+  if (unlabelled.length === 0) return null;
+
+  const labels = { ...state.labels };
+  let next = Object.keys(labels).length;
+  for (const response of shuffle(unlabelled)) {
+    labels[response.id] = labelFor(next++);
+  }
+  return { ...state, labels };
+}
+
+// The provider, model and anything in metadata that could name them are withheld
+export function maskResponse<T extends { id: string; aiProvider: string; metadata?: unknown }>(response: T, state: BlindJudgingState): T & { blindLabel?: string } {
+  const { metadata, ...rest } = response;
+  return { ...rest, aiProvider: BLIND_PROVIDER, blindLabel: state.labels[response.id] } as T & { blindLabel?: string };
+}
+
+// Judging counts as done once any answer has an award; revealing earlier would leave no blind awards
+export function canReveal(responses: Response[]): boolean {
+  return judgedResponses(responses).some(response => !!response.award);
+}
@@ -0,0 +1,46 @@
+// In-flight provider calls, keyed by response id and grouped by conversation so a whole
+// DIVE round or WORK run can be stopped at once. Process-local, like the rest of the job state.
+
+interface InFlightCall {
+  conversationId: string;
+  controller: AbortController;
+}
+
+export const CANCELLED_MESSAGE = "Cancelled by user";
+
+class CancellationRegistry {
+  private calls = new Map<string, InFlightCall>();
+
+  // Register before the background job starts so a cancel that arrives first still wins
+  register(conversationId: string, responseId: string): AbortSignal {
+    const controller = new AbortController();
+    this.calls.set(responseId, { conversationId, controller });
+    return controller.signal;
+  }
+
+  release(responseId: string): void {
+    this.calls.delete(responseId);
+  }
+
+  cancelResponse(responseId: string): boolean {
+    const call = this.calls.get(responseId);
+    if (!call) return false;
+    call.controller.abort();
+    this.calls.delete(responseId);
+    return true;
+  }
+
+  cancelConversation(conversationId: string): string[] {
+    const cancelled: string[] = [];
+    this.calls.forEach((call, responseId) => {
+      if (call.conversationId === conversationId) {
+        call.controller.abort();
+        cancelled.push(responseId);
+      }
+    });
+    cancelled.forEach(responseId => this.calls.delete(responseId));
+    return cancelled;
+  }
+}
+
+export const cancellationRegistry = new CancellationRegistry();
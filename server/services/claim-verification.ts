@@ -0,0 +1,158 @@
+import {
+  claimExtractionSchema, claimVerdictSchema,
+  type CacheOptions, type ClaimVerdict, type ClaimVerification, type VerifiedClaim,
+} from "@shared/schema";
+import { TRUTHFULNESS_STANDARDS } from "@shared/truthfulness-standards";
+import type { AIService } from "./ai-service";
+
+// Claim-level TURN verification. One provider splits a response into atomic claims, each quoting the
+// sentence it came from; every verifier then rules on each claim separately, and the rulings are
+// combined per claim. Quotes are located in the response so the client can highlight the exact text.
+
+export interface ClaimVerificationOptions {
+  extractorAI?: string;
+  cache?: CacheOptions;
+  signal?: AbortSignal;
+}
+
+interface ExtractedClaim {
+  claim: string;
+  quote: string;
+}
+
+function extractionPrompt(query: string, content: string): string {
+  return `Break the response below into its factual claims so each can be checked on its own.
+
+ORIGINAL QUERY: "${query}"
+
+RESPONSE:
+"""
+${content}
+"""
+
+List every assertion of fact, one atomic fact per claim: split sentences that state several facts, and restate each claim so it makes sense without the surrounding text. Leave out opinions, advice, questions and pleasantries. For each claim, quote the sentence or clause it comes from exactly as written.`;
+}
+
+function verificationPrompt(query: string, content: string, claims: ExtractedClaim[]): string {
+  const standards = [TRUTHFULNESS_STANDARDS[1], TRUTHFULNESS_STANDARDS[4]]
+    .map(standard => `- ${standard.title}: ${standard.rule}`)
+    .join('\n');
+  const numbered = claims.map((claim, index) => `${index + 1}. ${claim.claim}`).join('\n');
+
+  return `Check each claim taken from an AI response, one at a time.
+
+ORIGINAL QUERY: "${query}"
+
+FULL RESPONSE, for context only:
+"""
+${content}
+"""
+
+CLAIMS:
+${numbered}
+
+For every claim give a verdict:
+- supported: correct according to verifiable facts you can point to
+- refuted: contradicted by verifiable facts; say what is actually true
+- unverifiable: cannot be confirmed or refuted from what is known
+Apply these standards:
+${standards}
+Do not mark a claim supported because it sounds plausible. Give the basis for every verdict.`;
+}
+
+// The quote's position in the content, searching after the previous claim's quote first because
+// claims come in order; falls back to a case- and whitespace-insensitive match
+function locate(content: string, quote: string, from: number): { start: number; end: number } | null {
+  const trimmed = quote.trim().replace(/^["'“]+|["'”]+$/g, '');
+  if (!trimmed) return null;
+
+  for (const start of [content.indexOf(trimmed, from), content.indexOf(trimmed)]) {
+    if (start >= 0) return { start, end: start + trimmed.length };
+  }
+  const pattern = trimmed.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+  const match = new RegExp(pattern, 'i').exec(content);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+}
+
+// Any refutation without support refutes; support needs a majority of the verifiers that ruled
+function combine(verdicts: VerifiedClaim['verdicts']): VerifiedClaim['verdict'] {
+  const count = (verdict: ClaimVerdict) => verdicts.filter(entry => entry.verdict === verdict).length;
+  const supported = count('supported');
+  const refuted = count('refuted');
+  if (supported > 0 && refuted > 0) return 'disputed';
+  if (refuted > 0) return 'refuted';
+  return supported * 2 > verdicts.length ? 'supported' : 'unverifiable';
+}
+
+function addCost(total: number | null, cost: number | null | undefined): number | null {
+  return total === null || cost == null ? null : total + cost;
+}
+
+export async function verifyClaims(
+  aiService: AIService,
+  verifiers: string[],
+  query: string,
+  content: string,
+  options: ClaimVerificationOptions = {}
+): Promise<ClaimVerification> {
+  const extractedBy = options.extractorAI ?? verifiers[0];
+  const extraction = await aiService.queryStructured(extractedBy, extractionPrompt(query, content), claimExtractionSchema, {
+    schemaName: 'claim_extraction',
+    cache: options.cache,
+    signal: options.signal,
+  });
+  if (!extraction.success || !extraction.data) {
+    throw new Error(extraction.error || `${extractedBy} returned no claims`);
+  }
+  const extracted = extraction.data.claims.filter(claim => claim.claim.trim());
+  let costUsd = addCost(0, extraction.costUsd);
+
+  const failures: ClaimVerification['failures'] = [];
+  const rulings = new Map<number, VerifiedClaim['verdicts']>(extracted.map((_, index) => [index, []]));
+  if (extracted.length > 0) {
+    const prompt = verificationPrompt(query, content, extracted);
+    const results = await Promise.all(verifiers.map(verifier => aiService.queryStructured(verifier, prompt, claimVerdictSchema, {
+      schemaName: 'claim_verdicts',
+      maxTokens: 4000,
+      cache: options.cache,
+      signal: options.signal,
+    })));
+
+    results.forEach((result, index) => {
+      const verifier = verifiers[index];
+      costUsd = addCost(costUsd, result.costUsd);
+      if (!result.success || !result.data) {
+        failures.push({ verifier, error: result.error || 'No verdicts returned' });
+        return;
+      }
+      // Claim numbers the verifier made up are dropped; a repeated number keeps its first verdict
+      for (const ruling of result.data.verdicts) {
+        const entries = rulings.get(ruling.claim - 1);
+        if (entries && !entries.some(entry => entry.verifier === verifier)) {
+          entries.push({ verifier, verdict: ruling.verdict, rationale: ruling.rationale, correction: ruling.correction });
+        }
+      }
+    });
+    if (failures.length === verifiers.length) {
+      throw new Error(`No verifier returned verdicts: ${failures.map(failure => `${failure.verifier}: ${failure.error}`).join('; ')}`);
+    }
+  }
+
+  let cursor = 0;
+  const claims = extracted.map((claim, index): VerifiedClaim => {
+    const span = locate(content, claim.quote, cursor);
+    if (span) cursor = span.start;
+    const verdicts = rulings.get(index)!;
+    return {
+      index,
+      claim: claim.claim,
+      quote: claim.quote,
+      start: span?.start ?? null,
+      end: span?.end ?? null,
+      verdict: combine(verdicts),
+      verdicts,
+    };
+  });
+
+  return { extractedBy, verifiers, verifiedAt: new Date().toISOString(), claims, failures, costUsd };
+}
@@ -0,0 +1,145 @@
+import { and, eq, getTableColumns, inArray, sql } from "drizzle-orm";
+import { db } from "../db";
+import { embeddings, type EmbeddingSourceType, type StoredEmbedding } from "@shared/schema";
+import type { Embedding } from "./providers";
+
+// Postgres storage and nearest-neighbour search for embeddings. With the pgvector extension the
+// database ranks rows by cosine distance; without it the candidates are scored here instead.
+// Searches only compare vectors of the same user, model and dimensions.
+
+export interface EmbeddingInput {
+  sourceType: EmbeddingSourceType;
+  sourceId: string;
+  conversationId?: string | null;
+  chunkIndex?: number;
+  content: string;
+  vector: Embedding;
+}
+
+export type EmbeddingMatch = Omit<StoredEmbedding, 'vector'> & { score: number }; // Cosine similarity, 1 is identical
+
+export interface EmbeddingSearchOptions {
+  limit?: number; // Default 10
+  sourceTypes?: EmbeddingSourceType[];
+}
+
+// Roughly 500 tokens per chunk keeps every embedding model within its input limit
+const CHUNK_CHARS = 2000;
+
+// Splits at paragraph breaks where possible; a single oversized paragraph is cut at the limit
+export function chunkText(text: string, maxChars = CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/).map(part => part.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    for (let start = 0; start < paragraph.length; start += maxChars) {
+      const piece = paragraph.slice(start, start + maxChars);
+      if (current && current.length + piece.length + 2 > maxChars) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function dot(a: Embedding, b: Embedding): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+class EmbeddingStore {
+  private pgvector: Promise<boolean> | null = null;
+
+  // Checked once per process; a failed check means no pgvector
+  private hasPgvector(): Promise<boolean> {
+    if (!this.pgvector) {
+      this.pgvector = db.execute(sql`select 1 from pg_extension where extname = 'vector'`)
+        .then(result => result.rows.length > 0)
+        .catch(error => {
+          console.error('pgvector check failed, searching without it:', error);
+          return false;
+        });
+    }
+    return this.pgvector;
+  }
+
+  // Re-embedding a source chunk with the same model replaces the stored vector
+  async upsert(userId: string, providerId: string, model: string, inputs: EmbeddingInput[]): Promise<void> {
+    if (inputs.length === 0) return;
+
+    const rows = inputs.map(input => ({
+      userId,
+      sourceType: input.sourceType,
+      sourceId: input.sourceId,
+      conversationId: input.conversationId ?? null,
+      chunkIndex: input.chunkIndex ?? 0,
+      providerId,
+      model,
+      dimensions: input.vector.length,
+      content: input.content,
+      vector: input.vector,
+    }));
+
+    await db
+      .insert(embeddings)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: [embeddings.userId, embeddings.sourceType, embeddings.sourceId, embeddings.chunkIndex, embeddings.model],
+        set: {
+          conversationId: sql`excluded.conversation_id`,
+          providerId: sql`excluded.provider_id`,
+          dimensions: sql`excluded.dimensions`,
+          content: sql`excluded.content`,
+          vector: sql`excluded.vector`,
+          createdAt: new Date(),
+        },
+      });
+  }
+
+  // Ids of the sources of one type already embedded with this model, for incremental indexing
+  async indexedSourceIds(userId: string, sourceType: EmbeddingSourceType, model: string): Promise<Set<string>> {
+    const rows = await db
+      .selectDistinct({ sourceId: embeddings.sourceId })
+      .from(embeddings)
+      .where(and(eq(embeddings.userId, userId), eq(embeddings.sourceType, sourceType), eq(embeddings.model, model)));
+    return new Set(rows.map(row => row.sourceId));
+  }
+
+  // Best matches first. The query vector must come from the same model and be unit length.
+  async search(userId: string, model: string, query: Embedding, options: EmbeddingSearchOptions = {}): Promise<EmbeddingMatch[]> {
+    const { limit = 10, sourceTypes } = options;
+    const where = and(
+      eq(embeddings.userId, userId),
+      eq(embeddings.model, model),
+      eq(embeddings.dimensions, query.length),
+      sourceTypes?.length ? inArray(embeddings.sourceType, sourceTypes) : undefined,
+    );
+    const { vector, ...columns } = getTableColumns(embeddings);
+
+    if (await this.hasPgvector()) {
+      const distance = sql<number>`${embeddings.vector}::vector <=> ${`[${query.join(',')}]`}::vector`;
+      const rows = await db
+        .select({ ...columns, score: sql<number>`1 - (${distance})` })
+        .from(embeddings)
+        .where(where)
+        .orderBy(distance)
+        .limit(limit);
+      return rows.map(row => ({ ...row, score: Number(row.score) }));
+    }
+
+    const rows = await db.select().from(embeddings).where(where);
+    return rows
+      .map(({ vector: stored, ...row }) => ({ ...row, score: dot(stored, query) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+export const embeddingStore = new EmbeddingStore();
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { openEventStream } from "./event-stream";
+
+// Streams a DIVE-shaped run through openEventStream the way /api/query/stream does: a JSON body read by
+// express.json(), asynchronous work before the first event, then deltas per provider. Fails if any event
+// is lost, which is what happened when writes were gated on the request's 'close' event.
+// Run with: npm run check:stream
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 10));
+
+const app = express();
+app.use(express.json());
+app.post("/dive", async (req, res) => {
+  const sendEvent = openEventStream(res);
+  try {
+    await tick();
+    sendEvent('start', { conversationId: 'dive-1', responses: req.body.selectedAIs.map((aiProvider: string) => ({ id: aiProvider, aiProvider })) });
+    await Promise.all(req.body.selectedAIs.map(async (aiProvider: string) => {
+      for (const delta of ['Swim', 'ming']) {
+        await tick();
+        sendEvent('delta', { responseId: aiProvider, aiProvider, delta });
+      }
+      sendEvent('complete', { responseId: aiProvider, aiProvider, content: 'Swimming' });
+    }));
+    sendEvent('done', { conversationId: 'dive-1' });
+  } finally {
+    res.end();
+  }
+});
+
+function parseEvents(body: string): { event: string; data: any }[] {
+  return body.split('\n\n').filter(Boolean).map(block => {
+    const event = /^event: (.*)$/m.exec(block)?.[1] ?? '';
+    const data = /^data: (.*)$/m.exec(block)?.[1];
+    return { event, data: data ? JSON.parse(data) : null };
+  });
+}
+
+const server = app.listen(0, async () => {
+  const { port } = server.address() as AddressInfo;
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/dive`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: 'How do fish swim?', selectedAIs: ['openai', 'anthropic'] })
+    });
+    assert.match(response.headers.get('content-type') ?? '', /^text\/event-stream/);
+
+    const events = parseEvents(await response.text());
+    const names = events.map(event => event.event);
+    assert.equal(names[0], 'start');
+    assert.equal(names[names.length - 1], 'done');
+    for (const aiProvider of ['openai', 'anthropic']) {
+      const own = events.filter(event => event.data?.aiProvider === aiProvider);
+      assert.deepEqual(own.map(event => event.event), ['delta', 'delta', 'complete'], `${aiProvider} events`);
+      assert.equal(own.slice(0, 2).map(event => event.data.delta).join(''), 'Swimming');
+    }
+    console.log(`✅ Streamed DIVE delivered ${events.length} events`);
+  } catch (error) {
+    console.error('❌ Streamed DIVE lost events:', error);
+    process.exitCode = 1;
+  } finally {
+    server.close();
+  }
+});
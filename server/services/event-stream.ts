@@ -0,0 +1,27 @@
+import type { Response } from "express";
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+// Server-sent events on an Express response. Writes stop once the client goes away, so a DIVE keeps
+// persisting its results without writing to a closed socket. This watches the response, not the
+// request: on Node 20 the request emits 'close' as soon as its body has been read.
+export function openEventStream(res: Response): SendEvent {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  let clientConnected = true;
+  res.on('close', () => {
+    clientConnected = false;
+  });
+
+  return (event, data) => {
+    if (clientConnected && !res.writableEnded && !res.destroyed) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+}
@@ -0,0 +1,182 @@
+import { randomUUID } from "crypto";
+import { asc, desc, eq, isNotNull } from "drizzle-orm";
+import { db } from "../db";
+import {
+  conversations, judgeAwards, judgeVerdictSchema, responses as responsesTable,
+  type CacheOptions, type GenerationOptions, type InsertJudgeAward, type JudgeAward, type JudgeVerdict, type Response,
+} from "@shared/schema";
+import { TRUTHFULNESS_STANDARDS } from "@shared/truthfulness-standards";
+import type { AIService, StructuredResponse } from "./ai-service";
+import { isBlind } from "./blind-judging";
+
+// LLM-as-judge for DIVE: a chosen provider scores every completed answer to a query against a rubric
+// and proposes medals with a justification for each. Verdicts go to the judge_awards table, never to
+// responses.award, so judge and human awards can be compared. Answers are shown to the judge without
+// provider names, so it cannot favour its own or a well-known provider's answer by name.
+
+const MEDALS = ['gold', 'silver', 'bronze'] as const;
+const JUDGE_AWARDS = new Set<string>([...MEDALS, 'titanic']);
+
+export interface JudgeRun {
+  runId: string;
+  judgeProvider: string;
+  judgeModel: string | null;
+  turnId: string | null;
+  createdAt: string | null;
+  verdicts: JudgeAward[];
+}
+
+export interface JudgeAgreement {
+  period: string; // Month the human award's response was created, YYYY-MM
+  judgeProvider: string;
+  compared: number; // Responses with both a human award and a judge verdict
+  agreed: number; // Of those, how many got the same award (no medal counts as none)
+}
+
+function buildPrompt(query: string, responses: Response[]): string {
+  const standards = Object.values(TRUTHFULNESS_STANDARDS)
+    .map((standard, index) => `${index + 1}. ${standard.title}: ${standard.rule}`)
+    .join('\n');
+  const answers = responses
+    .map((response, index) => `--- SOURCE ${index + 1} ---\n${response.content}\n--- END SOURCE ${index + 1} ---`)
+    .join('\n\n');
+
+  return `You are judging answers that several AI assistants gave independently to the same question.
+
+QUESTION: "${query}"
+
+${answers}
+
+Score every source from 1 to 10 on:
+- accuracy: are its factual claims correct?
+- completeness: does it answer everything that was asked?
+- clarity: is it well organized and easy to follow?
+- truthfulness: how well does it keep to these standards?
+${standards}
+
+Then award gold, silver and bronze to the three best answers (at most one of each, fewer if there are fewer sources), titanic to any answer that fails badly, and none to the rest. Justify each verdict with specifics from the answer. Judge the content only; do not guess which assistant wrote a source.`;
+}
+
+function mean(scores: number[]): number {
+  return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100;
+}
+
+// One verdict per known source. A medal given twice stays with the higher-scoring answer.
+function toAwards(data: JudgeVerdict, responses: Response[]): Omit<InsertJudgeAward, 'runId' | 'conversationId' | 'judgeProvider' | 'judgeModel'>[] {
+  const bySource = new Map<number, JudgeVerdict['verdicts'][number]>();
+  for (const verdict of data.verdicts) {
+    if (verdict.source >= 1 && verdict.source <= responses.length && !bySource.has(verdict.source)) {
+      bySource.set(verdict.source, verdict);
+    }
+  }
+
+  const verdicts = Array.from(bySource.values())
+    .map(verdict => {
+      const scores = { accuracy: verdict.accuracy, completeness: verdict.completeness, clarity: verdict.clarity, truthfulness: verdict.truthfulness };
+      const response = responses[verdict.source - 1];
+      return {
+        turnId: response.turnId ?? null,
+        responseId: response.id,
+        award: verdict.award === 'none' ? null : verdict.award,
+        scores,
+        total: mean(Object.values(scores)),
+        justification: verdict.justification,
+      };
+    });
+
+  for (const medal of MEDALS) {
+    const holders = verdicts.filter(verdict => verdict.award === medal).sort((a, b) => b.total - a.total);
+    holders.slice(1).forEach(verdict => { verdict.award = null; });
+  }
+  return verdicts;
+}
+
+export async function judgeResponses(
+  aiService: AIService,
+  judgeId: string,
+  conversationId: string,
+  query: string,
+  responses: Response[],
+  options: GenerationOptions & { cache?: CacheOptions; signal?: AbortSignal } = {}
+): Promise<{ result: StructuredResponse<JudgeVerdict>; run?: JudgeRun }> {
+  const result = await aiService.queryStructured(judgeId, buildPrompt(query, responses), judgeVerdictSchema, {
+    ...options,
+    schemaName: 'judge_verdict',
+    maxTokens: options.maxTokens ?? 4000,
+  });
+  if (!result.success || !result.data) {
+    return { result };
+  }
+
+  const awards = toAwards(result.data, responses);
+  if (awards.length === 0) {
+    return { result: { ...result, success: false, error: `${judgeId} returned no verdicts for the answers it was given` } };
+  }
+
+  const runId = randomUUID();
+  const judgeModel = result.model ?? null;
+  const rows = await db
+    .insert(judgeAwards)
+    .values(awards.map(award => ({ ...award, runId, conversationId, judgeProvider: judgeId, judgeModel })))
+    .returning();
+  return {
+    result,
+    run: { runId, judgeProvider: judgeId, judgeModel, turnId: rows[0].turnId, createdAt: rows[0].createdAt?.toISOString() ?? null, verdicts: rows },
+  };
+}
+
+// Every judging run of a conversation, newest first
+export async function getJudgeRuns(conversationId: string): Promise<JudgeRun[]> {
+  const rows = await db
+    .select()
+    .from(judgeAwards)
+    .where(eq(judgeAwards.conversationId, conversationId))
+    .orderBy(desc(judgeAwards.createdAt));
+
+  const runs = new Map<string, JudgeRun>();
+  for (const row of rows) {
+    let run = runs.get(row.runId);
+    if (!run) {
+      run = { runId: row.runId, judgeProvider: row.judgeProvider, judgeModel: row.judgeModel, turnId: row.turnId, createdAt: row.createdAt?.toISOString() ?? null, verdicts: [] };
+      runs.set(row.runId, run);
+    }
+    run.verdicts.push(row);
+  }
+  return Array.from(runs.values());
+}
+
+// How often each judge's latest verdict on a response matches the human award, month by month
+export async function getJudgeAgreement(): Promise<JudgeAgreement[]> {
+  const rows = await db
+    .select({
+      responseId: judgeAwards.responseId,
+      judgeProvider: judgeAwards.judgeProvider,
+      judgeAward: judgeAwards.award,
+      humanAward: responsesTable.award,
+      respondedAt: responsesTable.createdAt,
+      blindJudging: conversations.blindJudging,
+    })
+    .from(judgeAwards)
+    .innerJoin(responsesTable, eq(judgeAwards.responseId, responsesTable.id))
+    .innerJoin(conversations, eq(responsesTable.conversationId, conversations.id))
+    .where(isNotNull(responsesTable.award))
+    .orderBy(asc(judgeAwards.createdAt));
+
+  // Later runs by the same judge replace earlier verdicts. Human awards still hidden by blind judging
+  // are left out, as on the leaderboard.
+  const latest = new Map<string, typeof rows[number]>();
+  rows.filter(row => !isBlind(row)).forEach(row => latest.set(`${row.judgeProvider}:${row.responseId}`, row));
+
+  const buckets = new Map<string, JudgeAgreement>();
+  latest.forEach(row => {
+    const period = row.respondedAt ? row.respondedAt.toISOString().slice(0, 7) : 'unknown';
+    const key = `${period}:${row.judgeProvider}`;
+    const bucket = buckets.get(key) ?? { period, judgeProvider: row.judgeProvider, compared: 0, agreed: 0 };
+    bucket.compared++;
+    // Humans also hand out finished and quit, which the judge does not; those count as no medal
+    const human = row.humanAward && JUDGE_AWARDS.has(row.humanAward) ? row.humanAward : null;
+    if (human === row.judgeAward) bucket.agreed++;
+    buckets.set(key, bucket);
+  });
+  return Array.from(buckets.values()).sort((a, b) => a.period.localeCompare(b.period) || a.judgeProvider.localeCompare(b.judgeProvider));
+}
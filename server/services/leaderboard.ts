@@ -0,0 +1,208 @@
+import { and, eq, isNotNull, ne } from "drizzle-orm";
+import { db } from "../db";
+import { conversations, conversationTurns, responses, type Leaderboard, type LeaderboardEntry, type LeaderboardQuery } from "@shared/schema";
+import { isBlind } from "./blind-judging";
+import { QueryAnalyzer } from "./query-analyzer";
+import { SYNTHESIS_PROVIDER } from "./synthesis";
+
+// Provider leaderboard from human judging. Every DIVE turn where two or more answers got an award is
+// a round robin: each pair of awarded answers is one match, won by the better award, with the thumbs
+// rating breaking ties between equal awards. Ratings come from sequential Elo and from a Bradley-Terry
+// fit over all matches at once; the latter does not depend on the order judging happened in.
+
+const AWARD_POINTS: Record<string, number> = { gold: 5, silver: 4, bronze: 3, finished: 2, quit: 1, titanic: 0 };
+const RATING_POINTS: Record<string, number> = { positive: 0.5, negative: -0.5 };
+
+const BASE_RATING = 1500;
+const ELO_K = 32;
+const BT_ITERATIONS = 200;
+
+interface Contestant {
+  key: string;
+  provider: string;
+  model: string | null;
+  award: string;
+  score: number;
+}
+
+interface Dive {
+  playedAt: number;
+  queryType: string;
+  contestants: Contestant[];
+}
+
+interface Match {
+  a: string;
+  b: string;
+  scoreA: number; // 1 win, 0.5 draw, 0 loss
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Judged DIVE turns with at least two contestants left after the judging filter; conversations still
+// judged blind are left out
+async function loadDives(query: LeaderboardQuery): Promise<Dive[]> {
+  const rows = await db
+    .select({
+      conversationId: responses.conversationId,
+      turnId: responses.turnId,
+      aiProvider: responses.aiProvider,
+      award: responses.award,
+      awardBlind: responses.awardBlind,
+      rating: responses.rating,
+      metadata: responses.metadata,
+      createdAt: responses.createdAt,
+      conversationQuery: conversations.query,
+      turnQuery: conversationTurns.query,
+      blindJudging: conversations.blindJudging,
+    })
+    .from(responses)
+    .innerJoin(conversations, eq(responses.conversationId, conversations.id))
+    .leftJoin(conversationTurns, eq(responses.turnId, conversationTurns.id))
+    .where(and(
+      isNotNull(responses.award),
+      eq(conversations.mode, 'dive'),
+      ne(responses.aiProvider, SYNTHESIS_PROVIDER),
+    ));
+
+  const analyzer = new QueryAnalyzer();
+  const dives = new Map<string, Dive>();
+  for (const row of rows) {
+    if (!row.award || !(row.award in AWARD_POINTS)) continue;
+    // Until the reveal, a ranking that moves after an award would give the hidden provider away
+    if (isBlind(row)) continue;
+    if (query.judging === 'blind' && !row.awardBlind) continue;
+    if (query.judging === 'sighted' && row.awardBlind) continue;
+
+    const diveKey = `${row.conversationId}:${row.turnId ?? ''}`;
+    let dive = dives.get(diveKey);
+    if (!dive) {
+      dive = { playedAt: Infinity, queryType: analyzer.analyzeQuery(row.turnQuery ?? row.conversationQuery).type, contestants: [] };
+      dives.set(diveKey, dive);
+    }
+    dive.playedAt = Math.min(dive.playedAt, row.createdAt?.getTime() ?? 0);
+
+    const model = query.groupBy === 'model' ? row.metadata?.generation?.model ?? null : null;
+    dive.contestants.push({
+      key: model ? `${row.aiProvider}/${model}` : row.aiProvider,
+      provider: row.aiProvider,
+      model,
+      award: row.award,
+      score: AWARD_POINTS[row.award] + (row.rating ? RATING_POINTS[row.rating] ?? 0 : 0),
+    });
+  }
+
+  return Array.from(dives.values())
+    .filter(dive => dive.contestants.length >= 2)
+    .sort((a, b) => a.playedAt - b.playedAt);
+}
+
+function pairwise(dive: Dive): Match[] {
+  const matches: Match[] = [];
+  for (let i = 0; i < dive.contestants.length; i++) {
+    for (let j = i + 1; j < dive.contestants.length; j++) {
+      const a = dive.contestants[i];
+      const b = dive.contestants[j];
+      if (a.key === b.key) continue; // Two answers from the same model say nothing about its strength
+      matches.push({ a: a.key, b: b.key, scoreA: a.score > b.score ? 1 : a.score < b.score ? 0 : 0.5 });
+    }
+  }
+  return matches;
+}
+
+// A dive's matches update ratings together, with K spread over the opponents so a big field
+// does not move ratings more than a two-way race
+function eloRatings(dives: Dive[]): Map<string, number> {
+  const ratings = new Map<string, number>();
+  const get = (key: string) => ratings.get(key) ?? BASE_RATING;
+  for (const dive of dives) {
+    const matches = pairwise(dive);
+    const k = ELO_K / Math.max(1, dive.contestants.length - 1);
+    const deltas = new Map<string, number>();
+    for (const match of matches) {
+      const expectedA = 1 / (1 + Math.pow(10, (get(match.b) - get(match.a)) / 400));
+      const delta = k * (match.scoreA - expectedA);
+      deltas.set(match.a, (deltas.get(match.a) ?? 0) + delta);
+      deltas.set(match.b, (deltas.get(match.b) ?? 0) - delta);
+    }
+    deltas.forEach((delta, key) => ratings.set(key, get(key) + delta));
+  }
+  return ratings;
+}
+
+// Minorization-maximization fit of Bradley-Terry strengths. Each player also draws once against a
+// virtual player of strength 1, which keeps unbeaten and winless players finite.
+function bradleyTerryRatings(matches: Match[], keys: string[]): Map<string, number> {
+  const wins = new Map<string, number>(keys.map(key => [key, 0.5]));
+  const games = new Map<string, Map<string, number>>(keys.map(key => [key, new Map()]));
+  const addGame = (a: string, b: string) => games.get(a)!.set(b, (games.get(a)!.get(b) ?? 0) + 1);
+  for (const match of matches) {
+    wins.set(match.a, wins.get(match.a)! + match.scoreA);
+    wins.set(match.b, wins.get(match.b)! + 1 - match.scoreA);
+    addGame(match.a, match.b);
+    addGame(match.b, match.a);
+  }
+
+  let strength = new Map<string, number>(keys.map(key => [key, 1]));
+  for (let iteration = 0; iteration < BT_ITERATIONS; iteration++) {
+    const next = new Map<string, number>();
+    for (const key of keys) {
+      const own = strength.get(key)!;
+      let denominator = 1 / (own + 1); // The virtual opponent
+      games.get(key)!.forEach((count, opponent) => { denominator += count / (own + strength.get(opponent)!); });
+      next.set(key, wins.get(key)! / denominator);
+    }
+    strength = next;
+  }
+
+  return new Map(keys.map(key => [key, BASE_RATING + 400 * Math.log10(strength.get(key)!)]));
+}
+
+export async function buildLeaderboard(query: LeaderboardQuery): Promise<Leaderboard> {
+  const allDives = await loadDives(query);
+  const queryTypes: Record<string, number> = {};
+  allDives.forEach(dive => { queryTypes[dive.queryType] = (queryTypes[dive.queryType] ?? 0) + 1; });
+
+  const dives = query.queryType ? allDives.filter(dive => dive.queryType === query.queryType) : allDives;
+  const matches = dives.flatMap(pairwise);
+
+  const entries = new Map<string, LeaderboardEntry>();
+  for (const dive of dives) {
+    for (const contestant of dive.contestants) {
+      const entry = entries.get(contestant.key) ?? {
+        provider: contestant.provider, model: contestant.model, elo: BASE_RATING, bradleyTerry: BASE_RATING,
+        matches: 0, wins: 0, losses: 0, draws: 0, awards: {},
+      };
+      entry.awards[contestant.award] = (entry.awards[contestant.award] ?? 0) + 1;
+      entries.set(contestant.key, entry);
+    }
+  }
+  for (const match of matches) {
+    const a = entries.get(match.a)!;
+    const b = entries.get(match.b)!;
+    a.matches++;
+    b.matches++;
+    if (match.scoreA === 1) { a.wins++; b.losses++; }
+    else if (match.scoreA === 0) { a.losses++; b.wins++; }
+    else { a.draws++; b.draws++; }
+  }
+
+  const elo = eloRatings(dives);
+  const bradleyTerry = bradleyTerryRatings(matches, Array.from(entries.keys()));
+  entries.forEach((entry, key) => {
+    entry.elo = round(elo.get(key) ?? BASE_RATING);
+    entry.bradleyTerry = round(bradleyTerry.get(key) ?? BASE_RATING);
+  });
+
+  return {
+    groupBy: query.groupBy,
+    queryType: query.queryType ?? null,
+    judging: query.judging,
+    dives: dives.length,
+    matches: matches.length,
+    queryTypes,
+    entries: Array.from(entries.values()).sort((a, b) => b.bradleyTerry - a.bradleyTerry),
+  };
+}
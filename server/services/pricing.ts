@@ -0,0 +1,95 @@
+import type { TokenUsage } from "./providers";
+
+export interface ModelPrice {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+// List prices; keys match a model id exactly or with a snapshot suffix (e.g. "gpt-4o" prices
+// "gpt-4o-2024-08-06" and "mistral-large" prices "mistral-large-latest"). Any other suffix is a
+// different model, often a cheaper one, so "gpt-4.1-mini" needs its own entry and is unpriced
+// without one. A key ending in "*" matches every model id starting with the rest.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'o1': { input: 15, output: 60 },
+  'o1-mini': { input: 1.1, output: 4.4 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'sonar': { input: 1, output: 1 },
+  'sonar-pro': { input: 3, output: 15 },
+  'sonar-reasoning': { input: 1, output: 5 },
+  'sonar-reasoning-pro': { input: 2, output: 8 },
+  'grok-2': { input: 2, output: 10 },
+  'grok-3': { input: 3, output: 15 },
+  'grok-3-mini': { input: 0.3, output: 0.5 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'mistral-large': { input: 2, output: 6 },
+  'mistral-medium': { input: 0.4, output: 2 },
+  'mistral-small': { input: 0.1, output: 0.3 },
+  'codestral': { input: 0.3, output: 0.9 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+  'mistral-embed': { input: 0.1, output: 0 },
+  'mock-*': { input: 0, output: 0 }, // Local test provider
+};
+
+let priceTable: Record<string, ModelPrice> | null = null;
+
+// MODEL_PRICING='{"my-local-model":{"input":0,"output":0}}' adds or overrides entries
+function getPriceTable(): Record<string, ModelPrice> {
+  if (!priceTable) {
+    let overrides: Record<string, ModelPrice> = {};
+    if (process.env.MODEL_PRICING) {
+      try {
+        overrides = JSON.parse(process.env.MODEL_PRICING);
+      } catch (error) {
+        console.error('Ignoring invalid MODEL_PRICING:', error);
+      }
+    }
+    priceTable = { ...DEFAULT_PRICES, ...overrides };
+  }
+  return priceTable;
+}
+
+// Dated or pinned releases of the same model: -2024-08-06, -20250514, -2411 (YYMM), -001, -latest
+const SNAPSHOT_SUFFIX = /^-(\d{4}-\d{2}-\d{2}|\d{8}|\d{4}|\d{3}|latest)$/;
+
+function matchesKey(model: string, key: string): boolean {
+  if (key.endsWith('*')) return model.startsWith(key.slice(0, -1));
+  return model === key || (model.startsWith(key) && SNAPSHOT_SUFFIX.test(model.slice(key.length)));
+}
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const table = getPriceTable();
+  const key = Object.keys(table)
+    .filter(candidate => matchesKey(model, candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? table[key] : undefined;
+}
+
+// Null when the model is not in the price table, so unknown cost is not reported as free
+export function calculateCost(model: string | undefined, usage: TokenUsage | undefined): number | null {
+  if (!model || !usage) return null;
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
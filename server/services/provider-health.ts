@@ -0,0 +1,169 @@
+import { storage } from "../storage";
+import { decryptCredentials } from "./encryption";
+import { AIService } from "./ai-service";
+
+// Background provider health checks. GET /api/providers used to send a live completion to every
+// provider on every page load; it now reads these cached results instead.
+
+export type HealthStatus = 'connected' | 'setup_required' | 'error';
+
+export interface HealthSample {
+  status: HealthStatus;
+  checkedAt: string;
+  latencyMs: number | null; // null when the provider was not probed (no key configured)
+  error?: string;
+}
+
+export interface ProviderHealth extends HealthSample {
+  history: HealthSample[]; // Oldest first, capped at HISTORY_LIMIT
+}
+
+const HISTORY_LIMIT = 20;
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+// Users who have not loaded the provider list within this window are no longer probed
+const ACTIVE_USER_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Beyond this many users the least recently seen is dropped, so the sweep stays bounded
+const MAX_TRACKED_USERS = 500;
+// Probes fail fast and are never retried; the next scheduled run is the retry
+const HEALTH_CHECK_POLICY = { maxRetries: 0, timeoutMs: 15000 };
+
+// PROVIDER_HEALTH_INTERVAL_MS=0 disables scheduled checks; results are then refreshed only on demand
+function getIntervalMs(): number {
+  const value = process.env.PROVIDER_HEALTH_INTERVAL_MS;
+  if (!value) return DEFAULT_INTERVAL_MS;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_INTERVAL_MS;
+}
+
+// Results for callers without an account, probed with the server's environment keys only
+export const ANONYMOUS_HEALTH_KEY = 'anonymous';
+
+class ProviderHealthService {
+  // Credentials are per user, so results are too: userId -> providerId -> health
+  private results = new Map<string, Map<string, ProviderHealth>>();
+  private lastSeen = new Map<string, number>();
+  private running = new Map<string, Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+
+  start(): void {
+    const intervalMs = getIntervalMs();
+    if (this.timer || intervalMs === 0) return;
+    this.timer = setInterval(() => {
+      this.refreshActiveUsers().catch(error => console.error('Scheduled provider health check failed:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Cached results for the user; only providers never checked before are probed inline
+  async getHealth(userId: string, providerIds: string[]): Promise<Map<string, ProviderHealth>> {
+    // Re-inserted so the map stays ordered from least to most recently seen
+    this.lastSeen.delete(userId);
+    this.lastSeen.set(userId, Date.now());
+    if (this.lastSeen.size > MAX_TRACKED_USERS) {
+      const oldest = this.lastSeen.keys().next().value!;
+      this.lastSeen.delete(oldest);
+      this.results.delete(oldest);
+    }
+    const known = this.results.get(userId);
+    const unchecked = providerIds.filter(id => !known?.has(id));
+    if (unchecked.length > 0) {
+      await this.check(userId, unchecked);
+    }
+    return this.results.get(userId) ?? new Map();
+  }
+
+  // Probe now. A full check that is already running for the user is shared rather than repeated.
+  check(userId: string, providerIds?: string[]): Promise<void> {
+    if (!providerIds) {
+      const running = this.running.get(userId);
+      if (running) return running;
+      const run = this.probeUser(userId).finally(() => this.running.delete(userId));
+      this.running.set(userId, run);
+      return run;
+    }
+    return this.probeUser(userId, providerIds);
+  }
+
+  // Drop cached results after the user's keys or endpoints change
+  invalidate(userId: string): void {
+    this.results.delete(userId);
+  }
+
+  private async refreshActiveUsers(): Promise<void> {
+    const cutoff = Date.now() - ACTIVE_USER_WINDOW_MS;
+    for (const [userId, seenAt] of Array.from(this.lastSeen.entries())) {
+      if (seenAt < cutoff) {
+        this.lastSeen.delete(userId);
+        this.results.delete(userId);
+        continue;
+      }
+      // One user at a time keeps the burst of outbound requests small
+      await this.check(userId);
+    }
+  }
+
+  private async probeUser(userId: string, providerIds?: string[]): Promise<void> {
+    const user = userId === ANONYMOUS_HEALTH_KEY ? undefined : await storage.getUser(userId);
+    let credentials: Record<string, string> = {};
+    if (user?.encryptedCredentials?.encrypted) {
+      try {
+        credentials = decryptCredentials(user.encryptedCredentials.encrypted);
+      } catch (error) {
+        // Probe with environment keys only
+      }
+    }
+
+    const aiService = new AIService(credentials);
+    const providers = aiService.listProviders()
+      .filter(provider => !provider.listing && (!providerIds || providerIds.includes(provider.id)));
+
+    const samples = await Promise.all(providers.map(async provider => ({
+      providerId: provider.id,
+      sample: await this.probe(aiService, provider.id),
+    })));
+
+    const results = this.results.get(userId) ?? new Map<string, ProviderHealth>();
+    if (!providerIds) {
+      // Forget custom endpoints the user has since removed
+      const current = new Set(providers.map(provider => provider.id));
+      Array.from(results.keys()).forEach(id => {
+        if (!current.has(id)) results.delete(id);
+      });
+    }
+    samples.forEach(({ providerId, sample }) => {
+      const history = [...(results.get(providerId)?.history ?? []), sample].slice(-HISTORY_LIMIT);
+      results.set(providerId, { ...sample, history });
+    });
+    this.results.set(userId, results);
+  }
+
+  private async probe(aiService: AIService, providerId: string): Promise<HealthSample> {
+    const checkedAt = new Date().toISOString();
+    if (!aiService.isConfigured(providerId)) {
+      return { status: 'setup_required', checkedAt, latencyMs: null, error: 'API key not configured' };
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await aiService.checkHealth(providerId, { policy: HEALTH_CHECK_POLICY });
+      const latencyMs = Date.now() - startedAt;
+      if (result.success) {
+        return { status: 'connected', checkedAt, latencyMs };
+      }
+      // Key problems mention "API key" (see the adapters' error mapping)
+      const status = result.error?.includes('not configured') || result.error?.includes('API key') ? 'setup_required' : 'error';
+      return { status, checkedAt, latencyMs, error: result.error };
+    } catch (error: any) {
+      return { status: 'error', checkedAt, latencyMs: Date.now() - startedAt, error: error.message };
+    }
+  }
+}
+
+export const providerHealth = new ProviderHealthService();
@@ -0,0 +1,200 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { isRetryableError } from './errors';
+import { IMAGE_MIME_TYPES, PDF_MIME_TYPE, isImage, toBase64 } from './media';
+import type { AIServiceResponse, ProviderAdapter, ProviderRegistration, ProviderRequest, StreamDeltaHandler, ToolCall } from './types';
+
+const DEFAULT_MODEL = "claude-sonnet-4-20250514"; // newest Anthropic model
+
+export class AnthropicAdapter implements ProviderAdapter {
+  readonly id = 'anthropic';
+  private client: Anthropic | null = null;
+
+  constructor(apiKey?: string) {
+    if (apiKey) {
+      this.client = new Anthropic({ apiKey });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async query(request: ProviderRequest): Promise<AIServiceResponse> {
+    if (!this.client) {
+      return { success: false, error: "Anthropic API key not configured" };
+    }
+
+    try {
+      const response = await this.client.messages.create(this.buildParams(request), { signal: request.signal });
+      const toolCalls = request.responseSchema ? [] : this.extractToolCalls(response.content);
+
+      return {
+        success: true,
+        content: this.extractContent(response.content, !!request.responseSchema) || (toolCalls.length > 0 ? "" : "No text response"),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        model: response.model,
+        usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Anthropic error: ${error.message}`,
+        retryable: isRetryableError(error),
+      };
+    }
+  }
+
+  async stream(request: ProviderRequest, onDelta: StreamDeltaHandler): Promise<AIServiceResponse> {
+    if (!this.client) {
+      return { success: false, error: "Anthropic API key not configured" };
+    }
+
+    try {
+      const stream = this.client.messages.stream(this.buildParams(request), { signal: request.signal });
+      stream.on('text', (delta) => onDelta(delta));
+      const message = await stream.finalMessage();
+      const content = this.extractContent(message.content, !!request.responseSchema);
+
+      return {
+        success: true,
+        content: content || "No text response",
+        model: message.model,
+        usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Anthropic error: ${error.message}`,
+        retryable: isRetryableError(error),
+      };
+    }
+  }
+
+  supportsTools(): boolean {
+    return true;
+  }
+
+  supportsAttachment(mimeType: string): boolean {
+    return IMAGE_MIME_TYPES.includes(mimeType) || mimeType === PDF_MIME_TYPE;
+  }
+
+  async checkHealth(signal: AbortSignal): Promise<AIServiceResponse> {
+    if (!this.client) {
+      return { success: false, error: "Anthropic API key not configured" };
+    }
+
+    try {
+      await this.client.models.list({ limit: 1 }, { signal });
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Anthropic error: ${error.message}`,
+        retryable: isRetryableError(error),
+      };
+    }
+  }
+
+  private buildParams(request: ProviderRequest) {
+    const messages: Anthropic.MessageParam[] = [
+      ...(request.history ?? []),
+      { role: 'user', content: this.buildUserContent(request) },
+      // Each tool round is an assistant turn of tool_use blocks answered by a user turn of tool_result blocks
+      ...(request.toolTurns ?? []).flatMap((turn): Anthropic.MessageParam[] => [
+        {
+          role: 'assistant',
+          content: [
+            ...(turn.text ? [{ type: 'text' as const, text: turn.text }] : []),
+            ...turn.calls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments })),
+          ],
+        },
+        {
+          role: 'user',
+          content: turn.results.map(result => ({
+            type: 'tool_result' as const,
+            tool_use_id: result.callId,
+            content: result.content,
+            is_error: result.isError ?? false,
+          })),
+        },
+      ]),
+    ];
+
+    return {
+      model: request.model || DEFAULT_MODEL,
+      max_tokens: request.maxTokens ?? 2000,
+      messages,
+      ...(request.systemPrompt ? { system: request.systemPrompt } : {}),
+      ...(request.temperature !== undefined ? { temperature: Math.min(request.temperature, 1) } : {}),
+      // Structured output is a forced call to a tool whose input schema is the response schema
+      ...(request.responseSchema ? {
+        tools: [{
+          name: request.responseSchema.name,
+          description: "Record the answer in the required structure",
+          input_schema: request.responseSchema.schema as Anthropic.Tool.InputSchema,
+        }],
+        tool_choice: { type: 'tool' as const, name: request.responseSchema.name },
+      } : request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters as Anthropic.Tool.InputSchema,
+        })),
+      } : {}),
+    };
+  }
+
+  // Text blocks joined. With a response schema the forced tool call is the answer, so its input is the content.
+  private extractContent(blocks: Anthropic.ContentBlock[], structured: boolean): string {
+    return blocks
+      .map(block => block.type === 'text' ? block.text : structured && block.type === 'tool_use' ? JSON.stringify(block.input) : '')
+      .join('');
+  }
+
+  private extractToolCalls(blocks: Anthropic.ContentBlock[]): ToolCall[] {
+    return blocks
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: (block.input ?? {}) as Record<string, unknown> }));
+  }
+
+  // Media blocks go before the text, as Anthropic recommends
+  private buildUserContent(request: ProviderRequest) {
+    if (!request.attachments?.length) {
+      return request.prompt;
+    }
+
+    return [
+      ...request.attachments.map(attachment => isImage(attachment)
+        ? {
+          type: 'image' as const,
+          source: {
+            type: 'base64' as const,
+            media_type: attachment.mimeType as 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp',
+            data: toBase64(attachment),
+          },
+        }
+        : {
+          type: 'document' as const,
+          title: attachment.filename,
+          source: { type: 'base64' as const, media_type: 'application/pdf' as const, data: toBase64(attachment) },
+        }),
+      { type: 'text' as const, text: request.prompt },
+    ];
+  }
+}
+
+export const anthropicProvider: ProviderRegistration = {
+  info: {
+    id: 'anthropic',
+    name: 'Claude 4',
+    company: 'Anthropic',
+    requiresApiKey: true,
+    defaultModel: DEFAULT_MODEL,
+    models: [
+      { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4' },
+      { id: 'claude-opus-4-20250514', name: 'Claude Opus 4' },
+      { id: 'claude-3-5-haiku-20241022', name: 'Claude 3.5 Haiku' },
+    ],
+  },
+  create: (credentials) => new AnthropicAdapter(credentials.anthropic || process.env.ANTHROPIC_API_KEY),
+};
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { customEndpointSchema, type CustomEndpoint } from "@shared/schema";
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import type { ProviderAdapter, ProviderInfo } from './types';
+
+// User-defined OpenAI-compatible endpoints. They are per user, so unlike the built-in
+// providers they are not in the registry: AIService resolves them from the credentials.
+
+// Endpoints are kept as a JSON string under this key in the encrypted credentials
+export const CUSTOM_ENDPOINTS_KEY = 'customEndpoints';
+
+const CUSTOM_PROVIDER_PREFIX = 'custom-';
+
+export function customProviderId(endpoint: CustomEndpoint): string {
+  return `${CUSTOM_PROVIDER_PREFIX}${endpoint.id}`;
+}
+
+export function getCustomEndpoints(credentials: Record<string, string>): CustomEndpoint[] {
+  const raw = credentials[CUSTOM_ENDPOINTS_KEY];
+  if (!raw) return [];
+
+  try {
+    const parsed = z.array(customEndpointSchema).safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+export function setCustomEndpoints(credentials: Record<string, string>, endpoints: CustomEndpoint[]): Record<string, string> {
+  const { [CUSTOM_ENDPOINTS_KEY]: _previous, ...rest } = credentials;
+  return endpoints.length > 0 ? { ...rest, [CUSTOM_ENDPOINTS_KEY]: JSON.stringify(endpoints) } : rest;
+}
+
+export function findCustomEndpoint(credentials: Record<string, string>, providerId: string): CustomEndpoint | undefined {
+  if (!providerId.startsWith(CUSTOM_PROVIDER_PREFIX)) return undefined;
+  return getCustomEndpoints(credentials).find(endpoint => customProviderId(endpoint) === providerId);
+}
+
+export function customProviderInfo(endpoint: CustomEndpoint): ProviderInfo {
+  return {
+    id: customProviderId(endpoint),
+    name: endpoint.name,
+    company: 'Custom Endpoint',
+    requiresApiKey: false,
+    defaultModel: endpoint.model,
+    models: [{ id: endpoint.model, name: endpoint.model }],
+    ...(endpoint.embeddingModel ? { embeddingModel: endpoint.embeddingModel } : {}),
+  };
+}
+
+export function createCustomAdapter(endpoint: CustomEndpoint): ProviderAdapter {
+  return new OpenAICompatibleAdapter({
+    id: customProviderId(endpoint),
+    label: endpoint.name,
+    // Local servers usually ignore the key, but the OpenAI SDK refuses to build a client without one
+    apiKey: endpoint.apiKey || 'not-needed',
+    baseURL: endpoint.baseURL,
+    model: endpoint.model,
+    maxTokens: endpoint.maxTokens ?? 2000,
+    embeddingModel: endpoint.embeddingModel,
+  });
+}
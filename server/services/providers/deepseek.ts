@@ -0,0 +1,27 @@
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import type { ProviderRegistration } from './types';
+
+export const deepseekProvider: ProviderRegistration = {
+  info: {
+    id: 'deepseek',
+    name: 'DeepSeek',
+    company: 'DeepSeek AI',
+    requiresApiKey: true,
+    defaultModel: 'deepseek-chat',
+    models: [
+      { id: 'deepseek-chat', name: 'DeepSeek V3' },
+      { id: 'deepseek-reasoner', name: 'DeepSeek R1' },
+    ],
+  },
+  create: (credentials) => new OpenAICompatibleAdapter({
+    id: 'deepseek',
+    label: 'DeepSeek',
+    apiKey: credentials.deepseek || process.env.DEEPSEEK_API_KEY,
+    baseURL: "https://api.deepseek.com",
+    model: "deepseek-chat",
+    maxTokens: 2000,
+    structuredOutput: 'json_object',
+    tools: true,
+    streamUsage: true,
+  }),
+};
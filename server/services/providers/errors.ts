@@ -0,0 +1,15 @@
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+// Transient failures worth retrying: rate limits, server errors and dropped connections.
+// Auth, validation and user cancellation errors are final.
+export function isRetryableError(error: any): boolean {
+  if (error?.name === 'AbortError' || error?.name === 'APIUserAbortError') return false;
+
+  const status = error?.status ?? error?.statusCode;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const code = error?.code ?? error?.cause?.code;
+  return RETRYABLE_NETWORK_CODES.includes(code) || error?.name === 'APIConnectionError' || error?.name === 'APIConnectionTimeoutError';
+}
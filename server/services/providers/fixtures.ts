@@ -0,0 +1,208 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AIServiceResponse, EmbeddingRequest, EmbeddingResponse, ProviderAdapter, ProviderRequest, StreamDeltaHandler } from './types';
+
+// Record/replay of provider traffic for offline development and tests.
+// AI_FIXTURE_MODE=record saves every adapter call to a JSON file under AI_FIXTURE_DIR (default
+// fixtures/ai); AI_FIXTURE_MODE=replay serves those files back and never touches the network.
+// Fixtures are keyed by a hash of the request, so a replayed run must send exactly what was recorded.
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+const DEFAULT_FIXTURE_DIR = 'fixtures/ai';
+
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.AI_FIXTURE_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function getFixtureDir(): string {
+  return path.resolve(process.env.AI_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+}
+
+interface Fixture<Request = { model?: string; prompt: string; historyLength: number; attachments: string[]; tools: string[] }, Response = AIServiceResponse> {
+  key: string;
+  providerId: string;
+  recordedAt: string;
+  // Enough of the request to recognize the fixture when reading it; the key covers all of it
+  request: Request;
+  deltas?: string[]; // Present when recorded from a stream, so replay streams in the same chunks
+  response: Response;
+}
+
+type EmbeddingFixture = Fixture<{ model?: string; inputs: number }, EmbeddingResponse>;
+
+// Everything the adapter sends to the provider except the abort signal. Attachments are hashed
+// so fixture keys do not depend on Buffer serialization.
+export function fixtureKey(providerId: string, request: ProviderRequest): string {
+  const { signal, attachments, ...rest } = request;
+  return createHash('sha256').update(JSON.stringify({
+    providerId,
+    ...rest,
+    attachments: (attachments ?? []).map(attachment => ({
+      mimeType: attachment.mimeType,
+      sha256: createHash('sha256').update(attachment.data).digest('hex'),
+    })),
+  })).digest('hex');
+}
+
+export function embeddingFixtureKey(providerId: string, request: EmbeddingRequest): string {
+  return createHash('sha256').update(JSON.stringify({
+    providerId,
+    embed: true,
+    model: request.model,
+    inputs: request.inputs,
+  })).digest('hex');
+}
+
+function fixturePath(providerId: string, key: string): string {
+  // Custom endpoint ids contain characters that are not safe in directory names
+  return path.join(getFixtureDir(), providerId.replace(/[^a-zA-Z0-9_-]/g, '_'), `${key}.json`);
+}
+
+async function readFixture<T extends Fixture<any, any> = Fixture>(providerId: string, key: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(fixturePath(providerId, key), 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeFixture(fixture: Fixture<any, any>): Promise<void> {
+  const file = fixturePath(fixture.providerId, fixture.key);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2));
+}
+
+// Wraps an adapter so its calls are recorded or replayed. Cancelled and transient failures are never
+// recorded: they say nothing about the request, and replaying them would make runs flaky by design.
+class FixtureAdapter implements ProviderAdapter {
+  readonly id: string;
+  stream?: (request: ProviderRequest, onDelta: StreamDeltaHandler) => Promise<AIServiceResponse>;
+  checkHealth?: (signal: AbortSignal) => Promise<AIServiceResponse>;
+  embed?: (request: EmbeddingRequest) => Promise<EmbeddingResponse>;
+
+  constructor(private inner: ProviderAdapter, private mode: 'record' | 'replay') {
+    this.id = inner.id;
+
+    if (inner.stream) {
+      this.stream = (request, onDelta) => this.handle(request, onDelta);
+    }
+    if (mode === 'replay') {
+      this.checkHealth = async () => ({ success: true, content: 'replay' });
+    } else if (inner.checkHealth) {
+      this.checkHealth = (signal) => inner.checkHealth!(signal);
+    }
+    if (inner.embed) {
+      this.embed = (request) => this.handleEmbed(request);
+    }
+  }
+
+  // Replay needs no API keys
+  isConfigured(): boolean {
+    return this.mode === 'replay' || this.inner.isConfigured();
+  }
+
+  query(request: ProviderRequest): Promise<AIServiceResponse> {
+    return this.handle(request);
+  }
+
+  supportsTools(): boolean {
+    return this.inner.supportsTools?.() ?? false;
+  }
+
+  supportsAttachment(mimeType: string): boolean {
+    return this.inner.supportsAttachment?.(mimeType) ?? false;
+  }
+
+  private async handle(request: ProviderRequest, onDelta?: StreamDeltaHandler): Promise<AIServiceResponse> {
+    const key = fixtureKey(this.id, request);
+    return this.mode === 'replay' ? this.replay(key, onDelta) : this.record(key, request, onDelta);
+  }
+
+  private async handleEmbed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const key = embeddingFixtureKey(this.id, request);
+    if (this.mode === 'replay') {
+      const fixture = await readFixture<EmbeddingFixture>(this.id, key);
+      return fixture?.response ?? {
+        success: false,
+        error: `No recorded embedding fixture for ${this.id} (${key.slice(0, 12)}); record one with AI_FIXTURE_MODE=record`,
+      };
+    }
+
+    const result = await this.inner.embed!(request);
+    if (result.cancelled || result.retryable || request.signal?.aborted) {
+      return result;
+    }
+    try {
+      await writeFixture({
+        key,
+        providerId: this.id,
+        recordedAt: new Date().toISOString(),
+        request: { model: request.model, inputs: request.inputs.length },
+        response: result,
+      });
+    } catch (error) {
+      console.error(`Failed to record fixture for ${this.id}:`, error);
+    }
+    return result;
+  }
+
+  private async replay(key: string, onDelta?: StreamDeltaHandler): Promise<AIServiceResponse> {
+    const fixture = await readFixture(this.id, key);
+    if (!fixture) {
+      return {
+        success: false,
+        error: `No recorded fixture for ${this.id} (${key.slice(0, 12)}); record one with AI_FIXTURE_MODE=record`,
+      };
+    }
+
+    if (onDelta && fixture.response.success) {
+      const deltas = fixture.deltas ?? (fixture.response.content ? [fixture.response.content] : []);
+      deltas.forEach(delta => onDelta(delta));
+    }
+    return fixture.response;
+  }
+
+  private async record(key: string, request: ProviderRequest, onDelta?: StreamDeltaHandler): Promise<AIServiceResponse> {
+    const deltas: string[] = [];
+    const result = onDelta
+      ? await this.inner.stream!(request, (delta) => {
+        deltas.push(delta);
+        onDelta(delta);
+      })
+      : await this.inner.query(request);
+
+    if (result.cancelled || result.retryable || request.signal?.aborted) {
+      return result;
+    }
+
+    try {
+      await writeFixture({
+        key,
+        providerId: this.id,
+        recordedAt: new Date().toISOString(),
+        request: {
+          model: request.model,
+          prompt: request.prompt,
+          historyLength: request.history?.length ?? 0,
+          attachments: (request.attachments ?? []).map(attachment => `${attachment.filename} (${attachment.mimeType})`),
+          tools: (request.tools ?? []).map(tool => tool.name),
+        },
+        ...(onDelta ? { deltas } : {}),
+        response: result,
+      });
+    } catch (error) {
+      console.error(`Failed to record fixture for ${this.id}:`, error);
+    }
+    return result;
+  }
+}
+
+// The adapter itself when fixtures are off
+export function withFixtures(adapter: ProviderAdapter): ProviderAdapter {
+  const mode = getFixtureMode();
+  return mode === 'off' ? adapter : new FixtureAdapter(adapter, mode);
+}
@@ -0,0 +1,223 @@
+import { GoogleGenAI } from "@google/genai";
+import { isRetryableError } from './errors';
+import { IMAGE_MIME_TYPES, PDF_MIME_TYPE, toBase64 } from './media';
+import type { AIServiceResponse, EmbeddingRequest, EmbeddingResponse, ProviderAdapter, ProviderRegistration, ProviderRequest, StreamDeltaHandler, TokenUsage } from './types';
+
+const DEFAULT_MODEL = "gemini-2.5-flash"; // newest Gemini model
+const EMBEDDING_MODEL = "gemini-embedding-001";
+
+export class GeminiAdapter implements ProviderAdapter {
+  readonly id = 'google';
+  private client: GoogleGenAI | null = null;
+
+  constructor(apiKey?: string) {
+    if (apiKey) {
+      this.client = new GoogleGenAI({ apiKey });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async query(request: ProviderRequest): Promise<AIServiceResponse> {
+    if (!this.client) {
+      return { success: false, error: "Google AI API key not configured" };
+    }
+
+    try {
+      const response = await this.client.models.generateContent(this.buildParams(request));
+      // Gemini does not always id its calls; results are matched back by name and order
+      const toolCalls = (response.functionCalls ?? []).map((call, index) => ({
+        id: call.id || `${call.name}-${index}`,
+        name: call.name || "",
+        arguments: call.args ?? {},
+      }));
+
+      return {
+        success: true,
+        content: response.text || (toolCalls.length > 0 ? "" : "No response generated"),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        model: response.modelVersion,
+        usage: this.toUsage(response.usageMetadata),
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Gemini error: ${error.message}`,
+        retryable: isRetryableError(error),
+      };
+    }
+  }
+
+  async stream(request: ProviderRequest, onDelta: StreamDeltaHandler): Promise<AIServiceResponse> {
+    if (!this.client) {
+      return { success: false, error: "Google AI API key not configured" };
+    }
+
+    try {
+      const stream = await this.client.models.generateContentStream(this.buildParams(request));
+
+      let content = "";
+      let model: string | undefined;
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        model = chunk.modelVersion || model;
+        // Every chunk carries running totals; the last one wins
+        usage = this.toUsage(chunk.usageMetadata) || usage;
+        const delta = chunk.text;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+
+      return { success: true, content: content || "No response generated", model, usage };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Gemini error: ${error.message}`,
+        retryable: isRetryableError(error),
+      };
+    }
+  }
+
+  supportsTools(): boolean {
+    return true;
+  }
+
+  supportsAttachment(mimeType: string): boolean {
+    return IMAGE_MIME_TYPES.includes(mimeType) || mimeType === PDF_MIME_TYPE;
+  }
+
+  // The embedding endpoint does not report token counts, so usage (and cost) stays unknown
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    if (!this.client) {
+      return { success: false, error: "Google AI API key not configured" };
+    }
+
+    const model = request.model || EMBEDDING_MODEL;
+    try {
+      const response = await this.client.models.embedContent({
+        model,
+        contents: request.inputs,
+        config: { abortSignal: request.signal },
+      });
+      const embeddings = (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+      if (embeddings.length !== request.inputs.length) {
+        return { success: false, error: `Gemini returned ${embeddings.length} embeddings for ${request.inputs.length} inputs` };
+      }
+      return { success: true, embeddings, model };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Gemini error: ${error.message}`,
+        retryable: isRetryableError(error),
+      };
+    }
+  }
+
+  async checkHealth(signal: AbortSignal): Promise<AIServiceResponse> {
+    if (!this.client) {
+      return { success: false, error: "Google AI API key not configured" };
+    }
+
+    try {
+      await this.client.models.list({ config: { pageSize: 1, abortSignal: signal } });
+      return { success: true };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Gemini error: ${error.message}`,
+        retryable: isRetryableError(error),
+      };
+    }
+  }
+
+  private toUsage(metadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number }): TokenUsage | undefined {
+    if (!metadata) return undefined;
+    return {
+      inputTokens: metadata.promptTokenCount ?? 0,
+      // Thinking tokens are billed as output
+      outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    };
+  }
+
+  private buildParams(request: ProviderRequest) {
+    return {
+      model: request.model || DEFAULT_MODEL,
+      contents: this.buildContents(request),
+      config: {
+        ...(request.systemPrompt ? { systemInstruction: request.systemPrompt } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { maxOutputTokens: request.maxTokens } : {}),
+        ...(request.signal ? { abortSignal: request.signal } : {}),
+        ...(request.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema.schema } : {}),
+        ...(request.tools?.length ? {
+          tools: [{
+            functionDeclarations: request.tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parametersJsonSchema: tool.parameters,
+            })),
+          }],
+        } : {}),
+      },
+    };
+  }
+
+  // Gemini calls the assistant role "model"
+  private buildContents(request: ProviderRequest) {
+    if (!request.history?.length && !request.attachments?.length && !request.toolTurns?.length) {
+      return request.prompt;
+    }
+
+    return [
+      ...(request.history ?? []).map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      })),
+      {
+        role: 'user',
+        parts: [
+          ...(request.attachments ?? []).map(attachment => ({
+            inlineData: { mimeType: attachment.mimeType, data: toBase64(attachment) },
+          })),
+          { text: request.prompt },
+        ],
+      },
+      ...(request.toolTurns ?? []).flatMap(turn => [
+        {
+          role: 'model',
+          parts: [
+            ...(turn.text ? [{ text: turn.text }] : []),
+            ...turn.calls.map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+          ],
+        },
+        {
+          role: 'user',
+          parts: turn.results.map(result => ({
+            functionResponse: { name: result.name, response: result.isError ? { error: result.content } : { output: result.content } },
+          })),
+        },
+      ]),
+    ];
+  }
+}
+
+export const googleProvider: ProviderRegistration = {
+  info: {
+    id: 'google',
+    name: 'Gemini Pro',
+    company: 'Google',
+    requiresApiKey: true,
+    defaultModel: DEFAULT_MODEL,
+    models: [
+      { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
+      { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro' },
+      { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash' },
+    ],
+    embeddingModel: EMBEDDING_MODEL,
+  },
+  create: (credentials) => new GeminiAdapter(credentials.google || process.env.GEMINI_API_KEY),
+};
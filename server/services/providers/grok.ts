@@ -0,0 +1,27 @@
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import type { ProviderRegistration } from './types';
+
+export const grokProvider: ProviderRegistration = {
+  info: {
+    id: 'grok',
+    name: 'Grok',
+    company: 'xAI',
+    requiresApiKey: true,
+    defaultModel: 'grok-2-1212',
+    models: [
+      { id: 'grok-2-1212', name: 'Grok 2' },
+      { id: 'grok-3', name: 'Grok 3' },
+    ],
+  },
+  create: (credentials) => new OpenAICompatibleAdapter({
+    id: 'grok',
+    label: 'Grok',
+    apiKey: credentials.grok || process.env.XAI_API_KEY,
+    baseURL: "https://api.x.ai/v1",
+    model: "grok-2-1212",
+    maxTokens: 2000,
+    structuredOutput: 'json_schema',
+    tools: true,
+    streamUsage: true,
+  }),
+};
@@ -0,0 +1,34 @@
+// Built-in AI providers. Adding a provider means writing one module and registering it here;
+// every mode (DIVE, TURN, WORK, custom workflows) dispatches through the registry.
+// User-defined OpenAI-compatible endpoints are resolved per user; see ./custom.
+
+import { registerProvider } from './registry';
+import { openaiProvider } from './openai';
+import { anthropicProvider } from './anthropic';
+import { googleProvider } from './google';
+import { perplexityProvider } from './perplexity';
+import { deepseekProvider } from './deepseek';
+import { grokProvider } from './grok';
+import { mistralProvider } from './mistral';
+import { microsoftProvider } from './microsoft';
+import { mockProvider } from './mock';
+
+[
+  openaiProvider,
+  anthropicProvider,
+  googleProvider,
+  perplexityProvider,
+  deepseekProvider,
+  grokProvider,
+  mistralProvider,
+  microsoftProvider,
+  mockProvider,
+].forEach(registerProvider);
+
+export { registerProvider, getProvider, hasProvider, listProviders } from './registry';
+export { CUSTOM_ENDPOINTS_KEY, customProviderId, getCustomEndpoints, setCustomEndpoints, findCustomEndpoint, customProviderInfo, createCustomAdapter } from './custom';
+export { callWithPolicy, callWithFallback, getCallPolicy, getCircuitStatus, type CallPolicy, type CircuitStatus, type FallbackFailure, type FallbackResponse } from './resilience';
+export { acquireSlot, getRateLimits, type ProviderRateLimits, type QueuePositionHandler, type RateLimit } from './rate-limit';
+export { IMAGE_MIME_TYPES, PDF_MIME_TYPE } from './media';
+export { withFixtures, getFixtureMode, getFixtureDir, type FixtureMode } from './fixtures';
+export type { AIServiceResponse, CacheInfo, CallResult, Embedding, EmbeddingRequest, EmbeddingResponse, MediaAttachment, ProviderAdapter, ProviderAttempt, ProviderInfo, ProviderRegistration, ProviderRequest, QueryOptions, ResponseSchema, StreamDeltaHandler, TokenUsage, ToolCall, ToolCallRecord, ToolDefinition, ToolResult, ToolTurn, TranscriptionRecord } from './types';
@@ -0,0 +1,19 @@
+import type { MediaAttachment } from './types';
+
+// MIME types that can be sent to a model as media rather than pasted into the prompt as text
+
+// Image formats accepted by all three vision APIs (OpenAI, Anthropic, Gemini)
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+export const PDF_MIME_TYPE = 'application/pdf';
+
+export function isImage(attachment: MediaAttachment): boolean {
+  return IMAGE_MIME_TYPES.includes(attachment.mimeType);
+}
+
+export function toBase64(attachment: MediaAttachment): string {
+  return attachment.data.toString('base64');
+}
+
+export function toDataUrl(attachment: MediaAttachment): string {
+  return `data:${attachment.mimeType};base64,${toBase64(attachment)}`;
+}
@@ -0,0 +1,67 @@
+import { isRetryableError } from './errors';
+import type { AIServiceResponse, ProviderAdapter, ProviderRegistration, ProviderRequest } from './types';
+
+// Copilot has no public API; requests go through a RapidAPI proxy
+export class CopilotAdapter implements ProviderAdapter {
+  readonly id = 'microsoft';
+
+  constructor(private apiKey?: string) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async query(request: ProviderRequest): Promise<AIServiceResponse> {
+    if (!this.apiKey) {
+      return { success: false, error: "Microsoft Copilot API key not configured" };
+    }
+
+    try {
+      const response = await fetch("https://copilot5.p.rapidapi.com/copilot", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-rapidapi-host": "copilot5.p.rapidapi.com",
+          "x-rapidapi-key": this.apiKey,
+        },
+        body: JSON.stringify({
+          message: request.prompt,
+          conversation_id: null,
+          mode: "CHAT",
+          markdown: true,
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        throw Object.assign(new Error(`HTTP ${response.status}: ${response.statusText}`), { status: response.status });
+      }
+
+      const data = await response.json();
+      
+      return {
+        success: true,
+        content: data.data || data.message || "No response generated",
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Microsoft Copilot error: ${error.message}`,
+        retryable: isRetryableError(error),
+      };
+    }
+  }
+}
+
+export const microsoftProvider: ProviderRegistration = {
+  info: {
+    id: 'microsoft',
+    name: 'Copilot',
+    company: 'Microsoft',
+    requiresApiKey: true,
+    models: [],
+    listing: { status: 'setup_required', statusMessage: 'API Not Yet Available' },
+  },
+  // The RapidAPI key for the proxy, from the user's credentials or COPILOT_API_KEY
+  create: (credentials) => new CopilotAdapter(credentials.microsoft || process.env.COPILOT_API_KEY),
+};
@@ -0,0 +1,30 @@
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import type { ProviderRegistration } from './types';
+
+export const mistralProvider: ProviderRegistration = {
+  info: {
+    id: 'mistral',
+    name: 'Mistral AI',
+    company: 'Mistral AI',
+    requiresApiKey: true,
+    defaultModel: 'mistral-large-latest',
+    models: [
+      { id: 'mistral-large-latest', name: 'Mistral Large' },
+      { id: 'mistral-medium-latest', name: 'Mistral Medium' },
+      { id: 'mistral-small-latest', name: 'Mistral Small' },
+      { id: 'codestral-latest', name: 'Codestral' },
+    ],
+    embeddingModel: 'mistral-embed',
+  },
+  create: (credentials) => new OpenAICompatibleAdapter({
+    id: 'mistral',
+    label: 'Mistral',
+    apiKey: credentials.mistral || process.env.MISTRAL_API_KEY,
+    baseURL: "https://api.mistral.ai/v1",
+    model: "mistral-large-latest",
+    maxTokens: 2000,
+    structuredOutput: 'json_schema',
+    tools: true,
+    embeddingModel: 'mistral-embed',
+  }),
+};
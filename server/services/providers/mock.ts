@@ -0,0 +1,222 @@
+import { createHash } from 'crypto';
+import { envNumber } from './resilience';
+import { IMAGE_MIME_TYPES, PDF_MIME_TYPE } from './media';
+import type { AIServiceResponse, EmbeddingRequest, EmbeddingResponse, ProviderAdapter, ProviderRegistration, ProviderRequest, StreamDeltaHandler } from './types';
+
+// Local provider for demos and tests: needs no key and never leaves the process. The model id
+// picks the behavior, so it is configured per request from the same model picker as real providers.
+//   mock-canned         deterministic answer; valid JSON when a response schema is requested
+//   mock-echo           returns the prompt
+//   mock-slow           canned answer after MOCK_DELAY_MS (default 3000)
+//   mock-error          fails without retrying
+//   mock-flaky          every other call fails with a retryable error
+//   mock-timeout        never answers, so the call policy's timeout fires
+//   mock-partial        streams half an answer, then fails
+//   mock-malformed-json truncated JSON, for structured output repair paths
+// Every answer streams word by word, MOCK_STREAM_CHUNK_MS (default 40) apart.
+// Embeddings are hashed bags of words (mock-embedding), so texts sharing words come out similar.
+
+type MockBehavior = 'canned' | 'echo' | 'slow' | 'error' | 'flaky' | 'timeout' | 'partial' | 'malformed-json';
+
+const MOCK_BEHAVIORS: { behavior: MockBehavior; name: string }[] = [
+  { behavior: 'canned', name: 'Canned answers' },
+  { behavior: 'echo', name: 'Echo the prompt' },
+  { behavior: 'slow', name: 'Slow answers' },
+  { behavior: 'error', name: 'Always fails' },
+  { behavior: 'flaky', name: 'Fails every other call' },
+  { behavior: 'timeout', name: 'Never answers (times out)' },
+  { behavior: 'partial', name: 'Fails mid-stream' },
+  { behavior: 'malformed-json', name: 'Malformed JSON' },
+];
+
+const DEFAULT_MODEL = 'mock-canned';
+const EMBEDDING_MODEL = 'mock-embedding';
+const EMBEDDING_DIMENSIONS = 64;
+
+// Shared across adapter instances so "every other call" holds across requests
+let flakyCalls = 0;
+
+// Resolves after ms, or as soon as the signal aborts
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// A value that satisfies a JSON Schema in the subset structured output uses
+function sampleFromSchema(schema: any, name = 'value'): unknown {
+  if (!schema || typeof schema !== 'object') return null;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if (Array.isArray(schema.anyOf)) {
+    return sampleFromSchema(schema.anyOf.find((option: any) => option.type !== 'null') ?? schema.anyOf[0], name);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((candidate: string) => candidate !== 'null') : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFromSchema(value, key)]));
+    case 'array':
+      return [sampleFromSchema(schema.items, name)];
+    case 'string':
+      return `Mock ${name}`;
+    case 'number':
+    case 'integer':
+      return Math.max(schema.minimum ?? 7, Math.min(schema.maximum ?? 7, 7));
+    case 'boolean':
+      return true;
+    default:
+      return null;
+  }
+}
+
+// Each word adds ±1 to a bucket picked by its hash; AIService normalizes the result
+function hashedEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().split(/[^a-z0-9\u00c0-\uffff]+/).filter(Boolean)) {
+    const hash = createHash('sha256').update(word).digest();
+    vector[hash[0] % EMBEDDING_DIMENSIONS] += hash[1] & 1 ? 1 : -1;
+  }
+  return vector;
+}
+
+function cannedAnswer(request: ProviderRequest): string {
+  if (request.responseSchema) {
+    return JSON.stringify(sampleFromSchema(request.responseSchema.schema));
+  }
+
+  const firstLine = request.prompt.split('\n').find(line => line.trim())?.trim() ?? '';
+  const topic = firstLine.length > 120 ? `${firstLine.slice(0, 120)}…` : firstLine;
+  const files = request.attachments?.length
+    ? `\n\nI received ${request.attachments.length} attached file(s): ${request.attachments.map(attachment => attachment.filename).join(', ')}.`
+    : '';
+
+  return `This is a mock answer from the local test provider. No AI model was called.\n\n` +
+    `You asked about: "${topic}"\n\n` +
+    `1. The mock provider answers instantly and deterministically.\n` +
+    `2. Choose another mock model to simulate slow, failing or malformed responses.\n` +
+    `3. Add real API keys in settings to compare actual providers.` +
+    (request.history?.length ? `\n\nThis is turn ${request.history.length / 2 + 1} of the conversation.` : '') +
+    files;
+}
+
+export class MockAdapter implements ProviderAdapter {
+  readonly id = 'mock';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  // Media is only named in the answer, so accept it rather than have another provider transcribe it
+  supportsAttachment(mimeType: string): boolean {
+    return IMAGE_MIME_TYPES.includes(mimeType) || mimeType === PDF_MIME_TYPE;
+  }
+
+  async checkHealth(): Promise<AIServiceResponse> {
+    return { success: true, content: 'ok' };
+  }
+
+  query(request: ProviderRequest): Promise<AIServiceResponse> {
+    return this.respond(request);
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    return {
+      success: true,
+      embeddings: request.inputs.map(hashedEmbedding),
+      model: request.model || EMBEDDING_MODEL,
+      usage: { inputTokens: request.inputs.reduce((total, input) => total + estimateTokens(input), 0), outputTokens: 0 },
+    };
+  }
+
+  stream(request: ProviderRequest, onDelta: StreamDeltaHandler): Promise<AIServiceResponse> {
+    return this.respond(request, onDelta);
+  }
+
+  private async respond(request: ProviderRequest, onDelta?: StreamDeltaHandler): Promise<AIServiceResponse> {
+    const model = request.model || DEFAULT_MODEL;
+    const behavior = model.replace(/^mock-/, '') as MockBehavior;
+    const cancelled = (): AIServiceResponse => ({ success: false, error: 'Cancelled', cancelled: true });
+
+    let content: string;
+    switch (behavior) {
+      case 'echo':
+        content = request.prompt;
+        break;
+      case 'slow':
+        await wait(envNumber('MOCK_DELAY_MS') ?? 3000, request.signal);
+        content = cannedAnswer(request);
+        break;
+      case 'error':
+        return { success: false, error: 'Mock provider error: this model always fails' };
+      case 'flaky':
+        if (++flakyCalls % 2 === 1) {
+          return { success: false, error: 'Mock provider error: 503 Service Unavailable (simulated)', retryable: true };
+        }
+        content = cannedAnswer(request);
+        break;
+      case 'timeout':
+        // Only the caller's abort (the policy timeout or a cancel) ends this call
+        await new Promise<void>(resolve => {
+          if (request.signal?.aborted) return resolve();
+          request.signal?.addEventListener('abort', () => resolve(), { once: true });
+        });
+        return { success: false, error: 'Mock provider never answered', retryable: true };
+      case 'malformed-json':
+        content = '{"accuracyScore": 8, "factualErrors": ["The mock provider cut this reply sh';
+        break;
+      case 'partial':
+      case 'canned':
+        content = cannedAnswer(request);
+        break;
+      default:
+        return { success: false, error: `Unknown mock model "${model}"; use one of ${MOCK_BEHAVIORS.map(entry => `mock-${entry.behavior}`).join(', ')}` };
+    }
+
+    const words = content.split(/(?<=\s)/);
+    const sent = behavior === 'partial' ? words.slice(0, Math.ceil(words.length / 2)) : words;
+    if (onDelta) {
+      const chunkMs = envNumber('MOCK_STREAM_CHUNK_MS') ?? 40;
+      for (const word of sent) {
+        if (request.signal?.aborted) return cancelled();
+        onDelta(word);
+        await wait(chunkMs, request.signal);
+      }
+    }
+    if (request.signal?.aborted) return cancelled();
+
+    if (behavior === 'partial') {
+      return { success: false, error: 'Mock provider error: connection dropped mid-answer (simulated)' };
+    }
+
+    return {
+      success: true,
+      content,
+      model,
+      usage: { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(content) },
+    };
+  }
+}
+
+export const mockProvider: ProviderRegistration = {
+  info: {
+    id: 'mock',
+    name: 'Mock',
+    company: 'Local test provider',
+    requiresApiKey: false,
+    defaultModel: DEFAULT_MODEL,
+    models: MOCK_BEHAVIORS.map(({ behavior, name }) => ({ id: `mock-${behavior}`, name })),
+    embeddingModel: EMBEDDING_MODEL,
+  },
+  create: () => new MockAdapter(),
+};
@@ -0,0 +1,244 @@
+import OpenAI from "openai";
+import { isRetryableError } from './errors';
+import { PDF_MIME_TYPE, toDataUrl } from './media';
+import type { AIServiceResponse, EmbeddingRequest, EmbeddingResponse, ProviderAdapter, ProviderRequest, ResponseSchema, StreamDeltaHandler, TokenUsage } from './types';
+
+export interface OpenAICompatibleConfig {
+  id: string;
+  label: string; // Used in error messages, e.g. "Perplexity"
+  apiKey?: string;
+  baseURL?: string;
+  model: string; // Default model when the request does not name one
+  maxTokens: number;
+  temperature?: number;
+  streamUsage?: boolean; // Provider accepts stream_options.include_usage
+  healthCheck?: 'models' | 'completion'; // How checkHealth probes; defaults to listing models
+  attachmentTypes?: string[]; // MIME types sent as content parts (images, PDFs as files)
+  // Native structured output: a full JSON Schema, or only JSON mode (the schema then travels in the prompt)
+  structuredOutput?: 'json_schema' | 'json_object';
+  tools?: boolean; // Provider accepts function tools
+  embeddingModel?: string; // Enables embed() against the /embeddings endpoint
+}
+
+// Adapter for any provider that speaks the OpenAI chat completions API
+export class OpenAICompatibleAdapter implements ProviderAdapter {
+  readonly id: string;
+  private client: OpenAI | null = null;
+
+  constructor(private config: OpenAICompatibleConfig) {
+    this.id = config.id;
+
+    if (config.apiKey) {
+      this.client = new OpenAI({
+        apiKey: config.apiKey,
+        ...(config.baseURL ? { baseURL: config.baseURL } : {}),
+      });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async query(request: ProviderRequest): Promise<AIServiceResponse> {
+    if (!this.client) {
+      return { success: false, error: `${this.config.label} API key not configured` };
+    }
+
+    try {
+      const response = await this.client.chat.completions.create(this.buildParams(request), { signal: request.signal });
+      const message = response.choices[0].message;
+      const toolCalls = (message.tool_calls ?? [])
+        .filter(call => call.type === 'function')
+        .map(call => ({ id: call.id, name: call.function.name, arguments: this.parseToolArguments(call.function.arguments) }));
+
+      return {
+        success: true,
+        content: message.content || (toolCalls.length > 0 ? "" : "No response generated"),
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
+        model: response.model,
+        usage: response.usage
+          ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+          : undefined,
+      };
+    } catch (error: any) {
+      return { success: false, error: this.describeError(error, request), retryable: isRetryableError(error) };
+    }
+  }
+
+  async stream(request: ProviderRequest, onDelta: StreamDeltaHandler): Promise<AIServiceResponse> {
+    if (!this.client) {
+      return { success: false, error: `${this.config.label} API key not configured` };
+    }
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        ...this.buildParams(request),
+        stream: true,
+        ...(this.config.streamUsage ? { stream_options: { include_usage: true } } : {}),
+      }, { signal: request.signal });
+
+      let content = "";
+      let model: string | undefined;
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        // Usage arrives on the final chunk, which has no choices
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+
+      return { success: true, content: content || "No response generated", model, usage };
+    } catch (error: any) {
+      return { success: false, error: this.describeError(error, request), retryable: isRetryableError(error) };
+    }
+  }
+
+  supportsTools(): boolean {
+    return this.config.tools ?? false;
+  }
+
+  supportsAttachment(mimeType: string): boolean {
+    return this.config.attachmentTypes?.includes(mimeType) ?? false;
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const model = request.model || this.config.embeddingModel;
+    if (!this.client) {
+      return { success: false, error: `${this.config.label} API key not configured` };
+    }
+    if (!model) {
+      return { success: false, error: `${this.config.label} has no embedding model configured` };
+    }
+
+    try {
+      const response = await this.client.embeddings.create({ model, input: request.inputs }, { signal: request.signal });
+      // Results carry their input index; do not rely on the order they arrive in
+      const embeddings = [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+      return {
+        success: true,
+        embeddings,
+        model: response.model || model,
+        usage: response.usage ? { inputTokens: response.usage.prompt_tokens, outputTokens: 0 } : undefined,
+      };
+    } catch (error: any) {
+      return { success: false, error: this.describeError(error, { prompt: "", model }), retryable: isRetryableError(error) };
+    }
+  }
+
+  async checkHealth(signal: AbortSignal): Promise<AIServiceResponse> {
+    if (!this.client) {
+      return { success: false, error: `${this.config.label} API key not configured` };
+    }
+
+    // Providers without a models endpoint get a one-word completion instead
+    if (this.config.healthCheck === 'completion') {
+      return this.query({ prompt: "ping", maxTokens: 5, signal });
+    }
+
+    try {
+      await this.client.models.list({ signal });
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: this.describeError(error, { prompt: "" }), retryable: isRetryableError(error) };
+    }
+  }
+
+  // Map HTTP failures to messages users can act on. Key problems must mention "API key"
+  // because the provider list reports those as setup_required rather than error.
+  private describeError(error: any, request: ProviderRequest): string {
+    const label = this.config.label;
+    switch (error?.status) {
+      case 401:
+      case 403:
+        return `${label} rejected the API key (invalid, revoked or lacking access)`;
+      case 402:
+        return `${label} error: insufficient account balance`;
+      case 404:
+        return `${label} error: model "${request.model || this.config.model}" not found`;
+      case 429:
+        return `${label} error: rate limit exceeded, try again shortly`;
+    }
+    if (error?.status >= 500) {
+      return `${label} error: service unavailable (HTTP ${error.status})`;
+    }
+    return `${label} error: ${error.message}`;
+  }
+
+  private buildParams(request: ProviderRequest) {
+    const model = request.model || this.config.model;
+    const maxTokens = request.maxTokens ?? this.config.maxTokens;
+    const temperature = request.temperature ?? this.config.temperature;
+    // o-series reasoning models reject max_tokens and custom temperatures
+    const isReasoningModel = /^o\d/.test(model);
+
+    return {
+      model,
+      messages: [
+        ...(request.systemPrompt ? [{ role: "system" as const, content: request.systemPrompt }] : []),
+        ...(request.history ?? []),
+        { role: "user" as const, content: this.buildUserContent(request) },
+        ...(request.toolTurns ?? []).flatMap(turn => [
+          {
+            role: "assistant" as const,
+            content: turn.text || null,
+            tool_calls: turn.calls.map(call => ({
+              id: call.id,
+              type: "function" as const,
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          },
+          ...turn.results.map(result => ({ role: "tool" as const, tool_call_id: result.callId, content: result.content })),
+        ]),
+      ],
+      ...(request.tools?.length ? {
+        tools: request.tools.map(tool => ({
+          type: "function" as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+      } : {}),
+      ...(isReasoningModel ? { max_completion_tokens: maxTokens } : { max_tokens: maxTokens }),
+      ...(temperature !== undefined && !isReasoningModel ? { temperature } : {}),
+      ...(request.responseSchema && this.config.structuredOutput ? { response_format: this.buildResponseFormat(request.responseSchema) } : {}),
+    };
+  }
+
+  private buildResponseFormat(responseSchema: ResponseSchema) {
+    if (this.config.structuredOutput === 'json_object') {
+      return { type: "json_object" as const };
+    }
+    return {
+      type: "json_schema" as const,
+      json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: true },
+    };
+  }
+
+  // Models occasionally emit malformed argument JSON; the tool then sees no arguments and reports it
+  private parseToolArguments(raw: string): Record<string, unknown> {
+    try {
+      const parsed = JSON.parse(raw || "{}");
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  private buildUserContent(request: ProviderRequest) {
+    if (!request.attachments?.length) {
+      return request.prompt;
+    }
+
+    return [
+      { type: "text" as const, text: request.prompt },
+      ...request.attachments.map(attachment => attachment.mimeType === PDF_MIME_TYPE
+        ? { type: "file" as const, file: { filename: attachment.filename, file_data: toDataUrl(attachment) } }
+        : { type: "image_url" as const, image_url: { url: toDataUrl(attachment) } }),
+    ];
+  }
+}
@@ -0,0 +1,33 @@
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import { IMAGE_MIME_TYPES, PDF_MIME_TYPE } from './media';
+import type { ProviderRegistration } from './types';
+
+export const openaiProvider: ProviderRegistration = {
+  info: {
+    id: 'openai',
+    name: 'ChatGPT-4',
+    company: 'OpenAI',
+    requiresApiKey: true,
+    defaultModel: 'gpt-4o',
+    models: [
+      { id: 'gpt-4o', name: 'GPT-4o' },
+      { id: 'gpt-4o-mini', name: 'GPT-4o mini' },
+      { id: 'gpt-4.1', name: 'GPT-4.1' },
+      { id: 'o3-mini', name: 'o3-mini' },
+      { id: 'o1', name: 'o1' },
+    ],
+    embeddingModel: 'text-embedding-3-small',
+  },
+  create: (credentials) => new OpenAICompatibleAdapter({
+    id: 'openai',
+    label: 'OpenAI',
+    apiKey: credentials.openai || process.env.OPENAI_API_KEY,
+    model: "gpt-4o", // newest OpenAI model is "gpt-4o"
+    maxTokens: 2000,
+    structuredOutput: 'json_schema',
+    tools: true,
+    streamUsage: true,
+    attachmentTypes: [...IMAGE_MIME_TYPES, PDF_MIME_TYPE],
+    embeddingModel: 'text-embedding-3-small',
+  }),
+};
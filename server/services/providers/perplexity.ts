@@ -0,0 +1,28 @@
+import { OpenAICompatibleAdapter } from './openai-compatible';
+import type { ProviderRegistration } from './types';
+
+export const perplexityProvider: ProviderRegistration = {
+  info: {
+    id: 'perplexity',
+    name: 'Perplexity',
+    company: 'Perplexity AI',
+    requiresApiKey: true,
+    defaultModel: 'sonar',
+    models: [
+      { id: 'sonar', name: 'Sonar' },
+      { id: 'sonar-pro', name: 'Sonar Pro' },
+      { id: 'sonar-reasoning', name: 'Sonar Reasoning' },
+    ],
+  },
+  create: (credentials) => new OpenAICompatibleAdapter({
+    id: 'perplexity',
+    label: 'Perplexity',
+    apiKey: credentials.perplexity || process.env.PERPLEXITY_API_KEY,
+    baseURL: "https://api.perplexity.ai",
+    model: "sonar",
+    maxTokens: 2000,
+    structuredOutput: 'json_schema',
+    temperature: 0.2,
+    healthCheck: 'completion', // No public models endpoint
+  }),
+};
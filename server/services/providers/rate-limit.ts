@@ -0,0 +1,189 @@
+import { envNumber } from './resilience';
+
+// Request limits applied by AIService before every provider call. Calls over a limit wait in a
+// per-provider FIFO queue instead of failing. Limits apply per user and across all users, since
+// everyone shares the org keys configured in the environment.
+
+export interface RateLimit {
+  requestsPerMinute: number; // 0 = unlimited
+  maxConcurrent: number; // 0 = unlimited
+}
+
+export interface ProviderRateLimits {
+  global: RateLimit;
+  perUser: RateLimit;
+}
+
+const DEFAULT_RATE_LIMITS: ProviderRateLimits = {
+  global: { requestsPerMinute: 120, maxConcurrent: 10 },
+  perUser: { requestsPerMinute: 30, maxConcurrent: 4 },
+};
+
+// Providers whose entry-level tiers allow less than the defaults
+const PROVIDER_RATE_LIMITS: Record<string, Partial<ProviderRateLimits>> = {
+  perplexity: { global: { requestsPerMinute: 50, maxConcurrent: 10 } },
+};
+
+const WINDOW_MS = 60000;
+
+// Env overrides: AI_RPM / AI_CONCURRENCY (all users) and AI_USER_RPM / AI_USER_CONCURRENCY (each user),
+// globally or per provider with a _<PROVIDER> suffix, e.g. AI_RPM_OPENAI=500
+export function getRateLimits(providerId: string): ProviderRateLimits {
+  const suffix = providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  const limits = { ...DEFAULT_RATE_LIMITS, ...PROVIDER_RATE_LIMITS[providerId] };
+  const setting = (name: string, fallback: number) => envNumber(`${name}_${suffix}`) ?? envNumber(name) ?? fallback;
+
+  return {
+    global: {
+      requestsPerMinute: setting('AI_RPM', limits.global.requestsPerMinute),
+      maxConcurrent: setting('AI_CONCURRENCY', limits.global.maxConcurrent),
+    },
+    perUser: {
+      requestsPerMinute: setting('AI_USER_RPM', limits.perUser.requestsPerMinute),
+      maxConcurrent: setting('AI_USER_CONCURRENCY', limits.perUser.maxConcurrent),
+    },
+  };
+}
+
+// Called with the 1-based queue position while a call waits, then with null once it starts
+export type QueuePositionHandler = (position: number | null) => void;
+
+interface Bucket {
+  active: number;
+  startedAt: number[]; // Start times within the last minute, oldest first
+}
+
+interface Waiter {
+  userId?: string;
+  position: number | null;
+  onQueued?: QueuePositionHandler;
+  start: () => void;
+}
+
+interface ProviderQueue {
+  global: Bucket;
+  users: Map<string, Bucket>;
+  waiting: Waiter[];
+  timer: NodeJS.Timeout | null;
+}
+
+// Shared by every AIService instance, like the circuit breakers
+const queues = new Map<string, ProviderQueue>();
+
+function getQueue(providerId: string): ProviderQueue {
+  let queue = queues.get(providerId);
+  if (!queue) {
+    queue = { global: { active: 0, startedAt: [] }, users: new Map(), waiting: [], timer: null };
+    queues.set(providerId, queue);
+  }
+  return queue;
+}
+
+function getUserBucket(queue: ProviderQueue, userId: string): Bucket {
+  let bucket = queue.users.get(userId);
+  if (!bucket) {
+    bucket = { active: 0, startedAt: [] };
+    queue.users.set(userId, bucket);
+  }
+  return bucket;
+}
+
+function hasCapacity(limit: RateLimit, bucket: Bucket, now: number): boolean {
+  while (bucket.startedAt.length > 0 && bucket.startedAt[0] <= now - WINDOW_MS) {
+    bucket.startedAt.shift();
+  }
+  return (limit.maxConcurrent === 0 || bucket.active < limit.maxConcurrent)
+    && (limit.requestsPerMinute === 0 || bucket.startedAt.length < limit.requestsPerMinute);
+}
+
+function take(bucket: Bucket, now: number): void {
+  bucket.active++;
+  bucket.startedAt.push(now);
+}
+
+// Start every waiter that fits, in order. A waiter held back by its own user's limit does not
+// block other users behind it.
+function drain(providerId: string): void {
+  const queue = getQueue(providerId);
+  const limits = getRateLimits(providerId);
+  const now = Date.now();
+  let position = 0;
+
+  queue.waiting = queue.waiting.filter(waiter => {
+    const userBucket = waiter.userId ? getUserBucket(queue, waiter.userId) : null;
+    if (hasCapacity(limits.global, queue.global, now) && (!userBucket || hasCapacity(limits.perUser, userBucket, now))) {
+      take(queue.global, now);
+      if (userBucket) take(userBucket, now);
+      if (waiter.position !== null) waiter.onQueued?.(null);
+      waiter.start();
+      return false;
+    }
+
+    position++;
+    if (waiter.position !== position) {
+      waiter.position = position;
+      waiter.onQueued?.(position);
+    }
+    return true;
+  });
+
+  queue.users.forEach((bucket, userId) => {
+    if (bucket.active === 0 && bucket.startedAt.length === 0) queue.users.delete(userId);
+  });
+
+  // Per-minute capacity frees up with time rather than on release, so wake when the oldest start expires
+  if (queue.waiting.length > 0 && !queue.timer) {
+    const starts = [queue.global, ...Array.from(queue.users.values())]
+      .map(bucket => bucket.startedAt[0])
+      .filter((startedAt): startedAt is number => startedAt !== undefined);
+    if (starts.length > 0) {
+      queue.timer = setTimeout(() => {
+        queue.timer = null;
+        drain(providerId);
+      }, Math.max(Math.min(...starts) + WINDOW_MS - now, 50));
+    }
+  }
+}
+
+// Waits for a slot and resolves with its release function, or with null if the signal aborted first.
+// Callers must release exactly once when the provider call settles.
+export function acquireSlot(
+  providerId: string,
+  userId: string | undefined,
+  options: { signal?: AbortSignal; onQueued?: QueuePositionHandler } = {}
+): Promise<(() => void) | null> {
+  if (options.signal?.aborted) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    const queue = getQueue(providerId);
+    const onAbort = () => {
+      queue.waiting = queue.waiting.filter(candidate => candidate !== waiter);
+      resolve(null);
+      drain(providerId); // Positions behind this waiter move up
+    };
+
+    const waiter: Waiter = {
+      userId,
+      position: null,
+      onQueued: options.onQueued,
+      start: () => {
+        options.signal?.removeEventListener('abort', onAbort);
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          queue.global.active--;
+          const userBucket = userId ? queue.users.get(userId) : undefined;
+          if (userBucket) userBucket.active--;
+          drain(providerId);
+        });
+      },
+    };
+
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    queue.waiting.push(waiter);
+    drain(providerId);
+  });
+}
@@ -0,0 +1,20 @@
+import type { ProviderInfo, ProviderRegistration } from './types';
+
+const registrations = new Map<string, ProviderRegistration>();
+
+export function registerProvider(registration: ProviderRegistration): void {
+  registrations.set(registration.info.id, registration);
+}
+
+export function getProvider(providerId: string): ProviderRegistration | undefined {
+  return registrations.get(providerId);
+}
+
+export function hasProvider(providerId: string): boolean {
+  return registrations.has(providerId);
+}
+
+// Providers in registration order, which is also the display order
+export function listProviders(): ProviderInfo[] {
+  return Array.from(registrations.values()).map(registration => registration.info);
+}
@@ -0,0 +1,209 @@
+import type { AIServiceResponse, CallResult, ProviderAttempt } from './types';
+
+// Timeout, retry and circuit-breaker policy applied by AIService around every adapter call
+
+export interface CallPolicy {
+  timeoutMs: number;
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // Backoff doubles from here on each retry
+  maxDelayMs: number;
+}
+
+const DEFAULT_CALL_POLICY: CallPolicy = {
+  timeoutMs: 60000,
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+};
+
+// Providers that routinely take longer (search-backed or reasoning models)
+const PROVIDER_CALL_POLICIES: Record<string, Partial<CallPolicy>> = {
+  perplexity: { timeoutMs: 90000 },
+  deepseek: { timeoutMs: 120000 },
+};
+
+// Circuit opens after this many consecutive transient failures and stays open for the cooldown
+const FAILURE_THRESHOLD = 5;
+const COOLDOWN_MS = 60000;
+
+export function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+// Env overrides: AI_TIMEOUT_MS / AI_MAX_RETRIES globally, AI_TIMEOUT_MS_<PROVIDER> per provider
+export function getCallPolicy(providerId: string): CallPolicy {
+  const suffix = providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  const policy = { ...DEFAULT_CALL_POLICY, ...PROVIDER_CALL_POLICIES[providerId] };
+
+  policy.timeoutMs = envNumber(`AI_TIMEOUT_MS_${suffix}`) ?? envNumber('AI_TIMEOUT_MS') ?? policy.timeoutMs;
+  policy.maxRetries = envNumber(`AI_MAX_RETRIES_${suffix}`) ?? envNumber('AI_MAX_RETRIES') ?? policy.maxRetries;
+  return policy;
+}
+
+export type CircuitStatus = 'closed' | 'open' | 'half_open';
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openedAt: number | null;
+}
+
+// Shared by every AIService instance: provider outages are not per user
+const circuits = new Map<string, CircuitState>();
+
+export function getCircuitStatus(providerId: string): CircuitStatus {
+  const circuit = circuits.get(providerId);
+  if (!circuit?.openedAt) return 'closed';
+  return Date.now() - circuit.openedAt >= COOLDOWN_MS ? 'half_open' : 'open';
+}
+
+function recordSuccess(providerId: string): void {
+  circuits.delete(providerId);
+}
+
+function recordFailure(providerId: string): void {
+  const circuit = circuits.get(providerId) ?? { consecutiveFailures: 0, openedAt: null };
+  circuit.consecutiveFailures++;
+  // A failed trial call while half-open re-opens the circuit for another cooldown
+  if (circuit.consecutiveFailures >= FAILURE_THRESHOLD) {
+    circuit.openedAt = Date.now();
+  }
+  circuits.set(providerId, circuit);
+}
+
+function backoffDelay(policy: CallPolicy, retry: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return delay / 2 + Math.random() * (delay / 2); // Jitter so parallel requests do not retry in lockstep
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Run one attempt with its own abort signal. The race guards against adapters that ignore the signal.
+async function attemptWithTimeout<T extends CallResult>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  outerSignal?: AbortSignal
+): Promise<{ result: T; timedOut: boolean }> {
+  const controller = new AbortController();
+  const abortFromOuter = () => controller.abort(outerSignal?.reason);
+  outerSignal?.addEventListener('abort', abortFromOuter);
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve('timeout');
+    }, timeoutMs);
+  });
+
+  try {
+    const outcome = await Promise.race([call(controller.signal), timeout]);
+    if (outcome === 'timeout') {
+      return {
+        result: { success: false, error: `Request timed out after ${Math.round(timeoutMs / 1000)}s`, retryable: true } as T,
+        timedOut: true,
+      };
+    }
+    return { result: outcome, timedOut: false };
+  } finally {
+    clearTimeout(timer);
+    outerSignal?.removeEventListener('abort', abortFromOuter);
+  }
+}
+
+// Calls the provider under its policy and returns the final result with the attempt history.
+// canRetry lets streaming callers stop retrying once output has reached the client.
+// Used for chat and embedding calls alike; failures are returned in the caller's result shape.
+export async function callWithPolicy<T extends CallResult = AIServiceResponse>(
+  providerId: string,
+  call: (signal: AbortSignal) => Promise<T>,
+  options: { signal?: AbortSignal; canRetry?: () => boolean; policy?: Partial<CallPolicy> } = {}
+): Promise<T> {
+  const policy = { ...getCallPolicy(providerId), ...options.policy };
+  const attempts: ProviderAttempt[] = [];
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = new Date();
+
+    // Also covers a cancel that lands during the backoff sleep
+    if (options.signal?.aborted) {
+      return { success: false, error: 'Cancelled', cancelled: true, attempts } as T;
+    }
+
+    if (getCircuitStatus(providerId) === 'open') {
+      const error = `${providerId} is temporarily unavailable after repeated failures; try again shortly`;
+      attempts.push({ attempt, startedAt: startedAt.toISOString(), durationMs: 0, outcome: 'circuit_open', error });
+      return { success: false, error, attempts } as T;
+    }
+
+    const { result, timedOut } = await attemptWithTimeout(call, policy.timeoutMs, options.signal);
+    attempts.push({
+      attempt,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      outcome: result.success ? 'success' : options.signal?.aborted ? 'cancelled' : timedOut ? 'timeout' : 'error',
+      ...(result.success ? {} : { error: result.error }),
+    });
+
+    if (result.success) {
+      recordSuccess(providerId);
+      return { ...result, attempts };
+    }
+
+    // Caller gave up; neither retry nor blame the provider
+    if (options.signal?.aborted) {
+      return { ...result, error: 'Cancelled', cancelled: true, attempts };
+    }
+
+    if (!result.retryable) {
+      return { ...result, attempts };
+    }
+
+    recordFailure(providerId);
+
+    const canRetry = options.canRetry?.() ?? true;
+    if (attempt > policy.maxRetries || !canRetry) {
+      return { ...result, attempts };
+    }
+
+    await sleep(backoffDelay(policy, attempt));
+  }
+}
+
+// A provider in a fallback chain that failed before the next one was tried
+export interface FallbackFailure {
+  providerId: string;
+  error: string;
+  attempts: ProviderAttempt[];
+}
+
+export type FallbackResponse = AIServiceResponse & {
+  providerId: string; // The provider that answered, or the last one tried when none did
+  fallbackFailures: FallbackFailure[];
+};
+
+// Tries each provider in order until one answers with content. Every call already retries under its
+// own policy, so the chain only moves on after a provider has definitively failed. Cancellation
+// stops the chain rather than handing the request to the next provider.
+export async function callWithFallback(
+  providerIds: string[],
+  call: (providerId: string) => Promise<AIServiceResponse>
+): Promise<FallbackResponse> {
+  const chain = Array.from(new Set(providerIds));
+  const fallbackFailures: FallbackFailure[] = [];
+
+  for (let index = 0; index < chain.length; index++) {
+    const providerId = chain[index];
+    const result = await call(providerId);
+    if ((result.success && result.content) || result.cancelled || index === chain.length - 1) {
+      return { ...result, providerId, fallbackFailures };
+    }
+    fallbackFailures.push({ providerId, error: result.error || 'No response', attempts: result.attempts ?? [] });
+  }
+
+  return { success: false, error: 'No providers to try', providerId: '', fallbackFailures };
+}
@@ -0,0 +1,193 @@
+// Provider adapter contracts shared by every AI provider module
+
+import type { CacheOptions, ChatMessage, GenerationOptions, ProviderModel } from "@shared/schema";
+import type { CallPolicy } from './resilience';
+import type { QueuePositionHandler } from './rate-limit';
+
+export interface AIServiceResponse {
+  success: boolean;
+  content?: string;
+  error?: string;
+  retryable?: boolean; // Transient failure (rate limit, server error, dropped connection)
+  cancelled?: boolean; // The caller aborted the request through its signal
+  model?: string; // Model that actually answered, as reported by the provider
+  usage?: TokenUsage;
+  costUsd?: number | null; // Filled in by AIService from the price table; null when the model is unpriced
+  attempts?: ProviderAttempt[]; // Filled in by AIService; one entry per try
+  toolCalls?: ToolCall[]; // Tools the model asked to run before it can answer; content may be empty
+  toolLog?: ToolCallRecord[]; // Filled in by AIService.queryWithTools; every tool run, in order
+  transcriptions?: TranscriptionRecord[]; // Filled in by AIService; files transcribed because the provider could not read them
+  cache?: CacheInfo; // Set when the call went through the response cache
+}
+
+// hit: the answer came from the cache (or a concurrent identical call) and no provider call was made.
+// Otherwise the fresh answer was stored under key.
+export interface CacheInfo {
+  hit: boolean;
+  key: string;
+  cachedAt: string;
+  expiresAt: string;
+  deduplicated?: boolean; // Shared with an identical call that was still in flight
+  original?: { inputTokens: number | null; outputTokens: number | null; costUsd: number | null }; // What the cached call cost
+}
+
+// What callWithPolicy needs from a result; chat and embedding responses both have these fields
+export interface CallResult {
+  success: boolean;
+  error?: string;
+  retryable?: boolean;
+  cancelled?: boolean;
+  attempts?: ProviderAttempt[];
+}
+
+// A text embedding. AIService scales every vector to unit length, so the cosine similarity of two
+// embeddings from the same model is their dot product.
+export type Embedding = number[];
+
+export interface EmbeddingRequest {
+  inputs: string[];
+  model?: string; // Defaults to the provider's embeddingModel
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResponse extends CallResult {
+  embeddings?: Embedding[]; // One per input, in input order
+  model?: string;
+  usage?: TokenUsage; // outputTokens is always 0
+  costUsd?: number | null; // Filled in by AIService
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderAttempt {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  outcome: 'success' | 'error' | 'timeout' | 'circuit_open' | 'cancelled';
+  error?: string;
+}
+
+export interface ProviderRequest extends GenerationOptions {
+  prompt: string;
+  // Prior exchanges with this provider, oldest first, excluding the current prompt
+  history?: ChatMessage[];
+  // Images and PDFs for the current prompt; AIService only passes types the adapter supports
+  attachments?: MediaAttachment[];
+  // Tools the model may call; the caller runs them and replays the rounds in toolTurns
+  tools?: ToolDefinition[];
+  toolTurns?: ToolTurn[];
+  // Reply must be JSON matching this schema; adapters use native structured output where the provider has it
+  responseSchema?: ResponseSchema;
+  // Aborted on timeout; adapters pass it through to the SDK so the HTTP request is dropped
+  signal?: AbortSignal;
+}
+
+export interface ResponseSchema {
+  name: string; // Letters, digits, _ and -; used as the schema or tool name
+  schema: Record<string, unknown>; // JSON Schema in the strict subset OpenAI accepts
+}
+
+// Provider-neutral tool description; adapters map it to OpenAI functions, Anthropic tools or Gemini declarations
+export interface ToolDefinition {
+  name: string; // Letters, digits and _
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema for the arguments object
+}
+
+export interface ToolCall {
+  id: string; // Provider's call id, echoed back with the result (generated where the provider has none)
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+// One round after the user prompt: the model's tool calls and what running them returned
+export interface ToolTurn {
+  text?: string; // Any text the model sent alongside its calls
+  calls: ToolCall[];
+  results: ToolResult[];
+}
+
+// Audit entry stored on the response for every tool the server ran
+export interface ToolCallRecord {
+  round: number;
+  name: string;
+  arguments: Record<string, unknown>;
+  result: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+// Audit entry stored on the response for every file read through another provider's transcription.
+// shared: the transcript was made for another call, which was billed for it
+export interface TranscriptionRecord {
+  filename: string;
+  mimeType: string;
+  providerId: string;
+  model?: string;
+  usage?: TokenUsage;
+  costUsd?: number | null;
+  shared: boolean;
+}
+
+// A binary file sent to the model natively; text files are inlined in the prompt instead
+export interface MediaAttachment {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+export type QueryOptions = Omit<ProviderRequest, 'prompt'> & {
+  policy?: Partial<CallPolicy>; // Per-call override, e.g. fail fast for connection tests
+  onQueued?: QueuePositionHandler; // Reports the position while the call waits for a rate-limit slot
+  cache?: CacheOptions; // Opt in to the response cache; tool calls are never cached
+};
+
+export type StreamDeltaHandler = (delta: string) => void;
+
+// A configured connection to a single AI provider
+export interface ProviderAdapter {
+  readonly id: string;
+  isConfigured(): boolean;
+  query(request: ProviderRequest): Promise<AIServiceResponse>;
+  // Optional token streaming; resolves with the full text once the stream ends
+  stream?(request: ProviderRequest, onDelta: StreamDeltaHandler): Promise<AIServiceResponse>;
+  // Whether the adapter maps request.tools and toolTurns; others are only ever queried without tools
+  supportsTools?(): boolean;
+  // MIME types the adapter can send natively; others are transcribed to text first (see AIService)
+  supportsAttachment?(mimeType: string): boolean;
+  // Optional cheap liveness probe, e.g. listing models; AIService otherwise sends a tiny completion
+  checkHealth?(signal: AbortSignal): Promise<AIServiceResponse>;
+  // Text embeddings, for providers whose info names an embeddingModel
+  embed?(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+}
+
+// Static description used by the provider list and settings screens
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  company: string;
+  requiresApiKey: boolean;
+  defaultModel?: string;
+  models: ProviderModel[]; // Suggested models; callers may still request any model id
+  embeddingModel?: string; // Set when the provider can embed text
+  // Providers with a listing are shown with a fixed status instead of being connection tested
+  listing?: {
+    status: 'setup_required' | 'disabled';
+    statusMessage?: string;
+  };
+}
+
+export interface ProviderRegistration {
+  info: ProviderInfo;
+  create(credentials: Record<string, string>): ProviderAdapter;
+}
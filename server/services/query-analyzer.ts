@@ -1,3 +1,6 @@
+import { z } from "zod";
+import type { AIService } from "./ai-service";
+
 export interface QueryAnalysis {
   complexity: 'simple' | 'moderate' | 'complex' | 'expert';
   type: 'analytical' | 'creative' | 'technical' | 'strategic' | 'research';
@@ -6,6 +9,14 @@ export interface QueryAnalysis {
   collaboration_need: 'low' | 'medium' | 'high' | 'critical';
 }
 
+const queryAnalysisSchema = z.object({
+  complexity: z.enum(['simple', 'moderate', 'complex', 'expert']),
+  type: z.enum(['analytical', 'creative', 'technical', 'strategic', 'research']),
+  scope: z.enum(['focused', 'multi-faceted', 'interdisciplinary']),
+  timeframe: z.enum(['immediate', 'planning', 'long-term']),
+  collaboration_need: z.enum(['low', 'medium', 'high', 'critical']),
+});
+
 export type WorkflowStrategy = 
   | 'sequential'           // Current implementation - step by step
   | 'parallel_merge'       // All AIs work simultaneously, merge results
@@ -54,6 +65,16 @@ export class QueryAnalyzer {
     return { complexity, type, scope, timeframe, collaboration_need };
   }
 
+  // Classify with a model through structured output; falls back to the keyword heuristics above
+  async analyzeQueryWithModel(aiService: AIService, providerId: string, query: string, attachments?: any[]): Promise<QueryAnalysis> {
+    const attachmentNote = attachments?.length ? `\n\nThe user attached ${attachments.length} file(s).` : '';
+    const result = await aiService.queryStructured(providerId, `Classify this request so the right multi-AI workflow can be planned. Judge the work needed to answer it well, not its length.
+
+REQUEST: "${query}"${attachmentNote}`, queryAnalysisSchema, { schemaName: 'query_analysis', maxRepairs: 1 });
+
+    return result.success && result.data ? result.data : this.analyzeQuery(query, attachments);
+  }
+
   private determineComplexity(query: string, wordCount: number, attachments?: any[]): QueryAnalysis['complexity'] {
     // Check for complexity keywords
     for (const [level, keywords] of Object.entries(this.complexityKeywords)) {
@@ -0,0 +1,145 @@
+import { createHash } from "crypto";
+import { and, eq, gt, lt, sql } from "drizzle-orm";
+import { db } from "../db";
+import { promptCache, type CacheOptions, type PromptCacheEntry } from "@shared/schema";
+import type { AIServiceResponse, CacheInfo, QueryOptions } from "./providers";
+import { envNumber } from "./providers/resilience";
+
+// Opt-in cache of provider answers in Postgres, keyed by a hash of everything that shapes the
+// answer. Identical calls made while one is in flight share its result instead of paying twice.
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// AI_CACHE_TTL_SECONDS sets the default lifetime of cached answers
+function defaultTtlSeconds(): number {
+  return envNumber('AI_CACHE_TTL_SECONDS') || DEFAULT_TTL_SECONDS;
+}
+
+// The user is part of the key: custom endpoint ids and keys differ between users, so identical
+// requests can reach different models
+export function cacheKey(parts: { userId?: string; providerId: string; model?: string; prompt: string; options: QueryOptions }): string {
+  const { options } = parts;
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify({
+    userId: parts.userId ?? null,
+    providerId: parts.providerId,
+    model: parts.model ?? null,
+    temperature: options.temperature ?? null,
+    maxTokens: options.maxTokens ?? null,
+    systemPrompt: options.systemPrompt ?? null,
+    history: options.history ?? [],
+    responseSchema: options.responseSchema ?? null,
+    prompt: parts.prompt,
+    attachments: (options.attachments ?? []).map(attachment => ({
+      mimeType: attachment.mimeType,
+      sha256: createHash('sha256').update(attachment.data).digest('hex'),
+    })),
+  }));
+  return hash.digest('hex');
+}
+
+function isCacheable(result: AIServiceResponse): boolean {
+  return result.success && !!result.content && !result.toolCalls?.length;
+}
+
+// A cached answer costs nothing, so usage and attempts are cleared and the original call is kept in cache.original
+function asHit(result: AIServiceResponse, cache: CacheInfo): AIServiceResponse {
+  return { success: true, content: result.content, model: result.model, costUsd: 0, attempts: [], cache };
+}
+
+class ResponseCache {
+  private inFlight = new Map<string, Promise<AIServiceResponse>>();
+  private lastPurgeAt = 0;
+
+  // Answer from the cache when possible, otherwise make the call and store a successful answer.
+  // Cache failures are logged and never fail the call.
+  async getOrCall(key: string, providerId: string, options: CacheOptions, call: () => Promise<AIServiceResponse>): Promise<AIServiceResponse> {
+    if (!options.bypass) {
+      const entry = await this.lookup(key);
+      if (entry) {
+        return asHit({ success: true, content: entry.content, model: entry.model ?? undefined }, {
+          hit: true,
+          key,
+          cachedAt: entry.createdAt.toISOString(),
+          expiresAt: entry.expiresAt.toISOString(),
+          original: { inputTokens: entry.inputTokens, outputTokens: entry.outputTokens, costUsd: entry.costUsd },
+        });
+      }
+
+      const pending = this.inFlight.get(key);
+      if (pending) {
+        const shared = await pending;
+        // A failed or cancelled leader says nothing about this call, so make it after all
+        if (isCacheable(shared) && shared.cache) {
+          return asHit(shared, {
+            ...shared.cache,
+            hit: true,
+            deduplicated: true,
+            original: { inputTokens: shared.usage?.inputTokens ?? null, outputTokens: shared.usage?.outputTokens ?? null, costUsd: shared.costUsd ?? null },
+          });
+        }
+      }
+    }
+
+    const run = call().then(result => isCacheable(result) ? this.store(key, providerId, result, options.ttlSeconds) : result);
+    this.inFlight.set(key, run);
+    try {
+      return await run;
+    } finally {
+      if (this.inFlight.get(key) === run) this.inFlight.delete(key);
+    }
+  }
+
+  private async lookup(key: string): Promise<PromptCacheEntry | null> {
+    try {
+      const [entry] = await db
+        .update(promptCache)
+        .set({ hitCount: sql`${promptCache.hitCount} + 1`, lastHitAt: new Date() })
+        .where(and(eq(promptCache.key, key), gt(promptCache.expiresAt, new Date())))
+        .returning();
+      return entry ?? null;
+    } catch (error) {
+      console.error('Response cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  private async store(key: string, providerId: string, result: AIServiceResponse, ttlSeconds?: number): Promise<AIServiceResponse> {
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + (ttlSeconds ?? defaultTtlSeconds()) * 1000);
+    const entry = {
+      providerId,
+      model: result.model ?? null,
+      content: result.content!,
+      inputTokens: result.usage?.inputTokens ?? null,
+      outputTokens: result.usage?.outputTokens ?? null,
+      costUsd: result.costUsd ?? null,
+      hitCount: 0,
+      createdAt,
+      expiresAt,
+      lastHitAt: null,
+    };
+
+    try {
+      await db
+        .insert(promptCache)
+        .values({ key, ...entry })
+        .onConflictDoUpdate({ target: promptCache.key, set: entry });
+      await this.purgeExpired();
+    } catch (error) {
+      console.error('Response cache store failed:', error);
+      return result;
+    }
+    return { ...result, cache: { hit: false, key, cachedAt: createdAt.toISOString(), expiresAt: expiresAt.toISOString() } };
+  }
+
+  // Expired rows are never served; they are deleted at most once an hour, piggybacking on writes
+  private async purgeExpired(): Promise<void> {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) return;
+    this.lastPurgeAt = Date.now();
+    await db.delete(promptCache).where(lt(promptCache.expiresAt, new Date()));
+  }
+}
+
+export const responseCache = new ResponseCache();
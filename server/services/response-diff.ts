@@ -0,0 +1,163 @@
+import type { DiffSegment, DiffSegmentStatus, Response, ResponseDiff } from "@shared/schema";
+import type { AIService } from "./ai-service";
+
+// Semantic diff of answers to the same query. Each answer is split into claim-sized segments
+// (sentences and list items), every segment is matched to its most similar segment in each other
+// answer, and segments are labelled by how many answers make the same point. Similarity comes from
+// embeddings when a provider can embed, otherwise from word overlap.
+
+export interface DiffOptions {
+  method?: 'auto' | 'embedding' | 'lexical';
+  threshold?: number;
+  signal?: AbortSignal;
+}
+
+// Paraphrases of one claim usually score above these; related but different claims below
+const EMBEDDING_THRESHOLD = 0.75;
+const LEXICAL_THRESHOLD = 0.5;
+const MIN_SEGMENT_WORDS = 4; // Shorter lines are headings or filler, not claims
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'for', 'from', 'has', 'have', 'if', 'in',
+  'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there', 'these',
+  'this', 'those', 'to', 'was', 'were', 'which', 'while', 'will', 'with', 'would', 'you', 'your',
+]);
+
+interface Segment {
+  paragraph: number;
+  text: string;
+}
+
+// Sentences within paragraphs; list items and headings count as paragraphs of their own
+export function segmentResponse(content: string): Segment[] {
+  const segments: Segment[] = [];
+  const paragraphs = content.split(/\n\s*\n|\n(?=\s*(?:[-*•]|\d+[.)]|#+)\s)/);
+  paragraphs.forEach((paragraph, index) => {
+    const text = paragraph.replace(/^\s*(?:[-*•]|\d+[.)]|#+)\s+/, '').replace(/[*_`]+/g, '').replace(/\s+/g, ' ').trim();
+    for (const sentence of text.split(/(?<=[.!?])\s+(?=["'(\[]?[A-Z0-9])/)) {
+      if (sentence.split(' ').length >= MIN_SEGMENT_WORDS) {
+        segments.push({ paragraph: index, text: sentence });
+      }
+    }
+  });
+  return segments;
+}
+
+// Unit-length term frequencies over content words, with a crude plural strip
+function lexicalVector(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().split(/[^a-z0-9\u00c0-\uffff]+/)) {
+    if (!word || STOPWORDS.has(word)) continue;
+    const term = word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  const length = Math.sqrt(Array.from(counts.values()).reduce((sum, count) => sum + count * count, 0));
+  counts.forEach((count, term) => counts.set(term, count / length));
+  return counts;
+}
+
+function lexicalSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let sum = 0;
+  a.forEach((weight, term) => { sum += weight * (b.get(term) ?? 0); });
+  return sum;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+type SegmentEmbeddings =
+  | { vectors: number[][]; model?: string; costUsd: number | null }
+  | { error: string; costUsd?: number | null };
+
+// Embeds every segment in one batched call, or explains why that was not possible
+async function embedSegments(aiService: AIService, texts: string[], signal?: AbortSignal): Promise<SegmentEmbeddings> {
+  const providerId = aiService.getEmbeddingProvider();
+  if (!providerId) {
+    return { error: 'No embedding provider configured' };
+  }
+  const result = await aiService.embed(providerId, texts, { signal });
+  if (!result.success || !result.embeddings) {
+    return { error: result.error || 'Embedding failed', costUsd: result.costUsd };
+  }
+  return { vectors: result.embeddings, model: result.model, costUsd: result.costUsd ?? null };
+}
+
+export async function diffResponses(aiService: AIService, responses: Response[], options: DiffOptions = {}): Promise<ResponseDiff> {
+  const segmented = responses.map(response => ({ response, segments: segmentResponse(response.content) }));
+  const texts = segmented.flatMap(entry => entry.segments.map(segment => segment.text));
+
+  let similarity: (a: number, b: number) => number; // Indexes into texts
+  let method: ResponseDiff['method'] = 'lexical';
+  let model: string | undefined;
+  let fallbackReason: string | undefined;
+  let costUsd: number | null | undefined;
+
+  const embedded = options.method === 'lexical' || texts.length === 0
+    ? null
+    : await embedSegments(aiService, texts, options.signal);
+  if (embedded && 'vectors' in embedded) {
+    const vectors = embedded.vectors;
+    similarity = (a, b) => dot(vectors[a], vectors[b]);
+    method = 'embedding';
+    model = embedded.model;
+    costUsd = embedded.costUsd;
+  } else {
+    if (embedded && options.method === 'embedding') {
+      throw new Error(embedded.error);
+    }
+    fallbackReason = embedded?.error;
+    costUsd = embedded?.costUsd;
+    const vectors = texts.map(lexicalVector);
+    similarity = (a, b) => lexicalSimilarity(vectors[a], vectors[b]);
+  }
+  const threshold = options.threshold ?? (method === 'embedding' ? EMBEDDING_THRESHOLD : LEXICAL_THRESHOLD);
+
+  // Position of each response's first segment in texts
+  const offsets: number[] = [];
+  segmented.reduce((offset, entry) => (offsets.push(offset), offset + entry.segments.length), 0);
+
+  const diffed = segmented.map((entry, responseIndex) => {
+    const others = segmented.map((_, index) => index).filter(index => index !== responseIndex);
+    const segments: DiffSegment[] = entry.segments.map((segment, segmentIndex) => {
+      const matches = others.flatMap(otherIndex => {
+        let best = { segmentIndex: -1, similarity: -Infinity };
+        segmented[otherIndex].segments.forEach((_, candidate) => {
+          const score = similarity(offsets[responseIndex] + segmentIndex, offsets[otherIndex] + candidate);
+          if (score > best.similarity) best = { segmentIndex: candidate, similarity: score };
+        });
+        return best.similarity >= threshold
+          ? [{ responseId: segmented[otherIndex].response.id, segmentIndex: best.segmentIndex, similarity: Math.round(best.similarity * 1000) / 1000 }]
+          : [];
+      });
+      const status: DiffSegmentStatus = matches.length === 0 ? 'unique' : matches.length === others.length ? 'shared' : 'partial';
+      return { index: segmentIndex, paragraph: segment.paragraph, text: segment.text, status, matches };
+    });
+
+    const counts: Record<DiffSegmentStatus, number> = { shared: 0, partial: 0, unique: 0 };
+    segments.forEach(segment => counts[segment.status]++);
+    return { responseId: entry.response.id, aiProvider: entry.response.aiProvider, segments, counts };
+  });
+
+  const agreement: ResponseDiff['agreement'] = [];
+  for (let a = 0; a < diffed.length; a++) {
+    for (let b = a + 1; b < diffed.length; b++) {
+      const matched = (from: typeof diffed[number], to: string) => from.segments.filter(segment => segment.matches.some(match => match.responseId === to)).length;
+      const total = diffed[a].segments.length + diffed[b].segments.length;
+      const score = total === 0 ? 0 : (matched(diffed[a], diffed[b].responseId) + matched(diffed[b], diffed[a].responseId)) / total;
+      agreement.push({ a: diffed[a].responseId, b: diffed[b].responseId, score: Math.round(score * 1000) / 1000 });
+    }
+  }
+
+  return {
+    method,
+    ...(model ? { model } : {}),
+    ...(fallbackReason ? { fallbackReason } : {}),
+    threshold,
+    responses: diffed,
+    agreement,
+    ...(costUsd !== undefined ? { costUsd } : {}),
+  };
+}
@@ -0,0 +1,113 @@
+import { storage } from "../storage";
+import type { AIService } from "./ai-service";
+import { attachmentKind, detectMimeType, loadAttachment } from "./attachments";
+import { chunkText, embeddingStore, type EmbeddingInput, type EmbeddingMatch } from "./embedding-store";
+import type { EmbeddingSourceType } from "@shared/schema";
+
+// Semantic search over a user's past conversations. Conversations (title and query), completed
+// responses and text attachments are embedded on demand: each search first indexes whatever is new,
+// a bounded amount at a time. Images and PDFs are not indexed; reading them takes a model call.
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  sourceTypes?: EmbeddingSourceType[];
+  signal?: AbortSignal;
+}
+
+export interface SemanticSearchResult {
+  providerId: string;
+  model: string;
+  indexed: number; // Sources embedded by this search
+  pending: number; // Sources left for later searches
+  matches: EmbeddingMatch[];
+  costUsd: number | null;
+}
+
+const INDEX_SCAN_LIMIT = 100; // Most recent conversations considered for indexing
+const INDEX_BATCH_LIMIT = 200; // Chunks embedded per search, so a first search stays quick
+
+interface PendingSource {
+  sourceType: EmbeddingSourceType;
+  sourceId: string;
+  conversationId: string;
+  text: string;
+}
+
+async function findUnindexed(userId: string, model: string): Promise<PendingSource[]> {
+  const [indexedConversations, indexedResponses, indexedAttachments] = await Promise.all([
+    embeddingStore.indexedSourceIds(userId, 'conversation', model),
+    embeddingStore.indexedSourceIds(userId, 'response', model),
+    embeddingStore.indexedSourceIds(userId, 'attachment', model),
+  ]);
+  const conversations = (await storage.getUserConversations(userId)).slice(0, INDEX_SCAN_LIMIT);
+
+  const pending: PendingSource[] = [];
+  for (const conversation of conversations) {
+    if (!indexedConversations.has(conversation.id)) {
+      pending.push({ sourceType: 'conversation', sourceId: conversation.id, conversationId: conversation.id, text: `${conversation.title}\n\n${conversation.query}` });
+    }
+    for (const response of await storage.getConversationResponses(conversation.id)) {
+      if (response.status === 'complete' && response.content && !indexedResponses.has(response.id)) {
+        pending.push({ sourceType: 'response', sourceId: response.id, conversationId: conversation.id, text: response.content });
+      }
+    }
+    for (const file of conversation.attachedFiles ?? []) {
+      if (indexedAttachments.has(file.id) || attachmentKind(detectMimeType(file)) !== 'text') continue;
+      // Files no longer in local storage are skipped
+      const attachment = await loadAttachment(file);
+      const text = attachment?.data.toString('utf8').trim();
+      if (text) {
+        indexedAttachments.add(file.id); // A file attached to several conversations is indexed once
+        pending.push({ sourceType: 'attachment', sourceId: file.id, conversationId: conversation.id, text: `${file.filename}\n\n${text}` });
+      }
+    }
+  }
+  return pending;
+}
+
+// Embeds up to INDEX_BATCH_LIMIT chunks of unindexed sources. A source is only stored whole,
+// so one that does not fit in this round is left for the next.
+async function indexPending(aiService: AIService, providerId: string, model: string, userId: string, pending: PendingSource[], signal?: AbortSignal) {
+  const inputs: Omit<EmbeddingInput, 'vector'>[] = [];
+  let indexed = 0;
+  for (const source of pending) {
+    const chunks = chunkText(source.text);
+    if (inputs.length > 0 && inputs.length + chunks.length > INDEX_BATCH_LIMIT) break;
+    chunks.forEach((content, chunkIndex) => inputs.push({ ...source, chunkIndex, content }));
+    indexed++;
+  }
+  if (inputs.length === 0) return { indexed: 0, costUsd: 0 };
+
+  const result = await aiService.embed(providerId, inputs.map(input => input.content), { model, signal });
+  if (!result.success || !result.embeddings) {
+    throw new Error(result.error || 'Embedding failed');
+  }
+  await embeddingStore.upsert(userId, providerId, model, inputs.map((input, index) => ({ ...input, vector: result.embeddings![index] })));
+  return { indexed, costUsd: result.costUsd ?? null };
+}
+
+export async function semanticSearch(aiService: AIService, userId: string, query: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchResult> {
+  const providerId = aiService.getEmbeddingProvider();
+  if (!providerId) {
+    throw new Error('No embedding provider configured; add an OpenAI, Gemini or Mistral API key, or an embedding model on a custom endpoint');
+  }
+  const model = aiService.getProviderInfo(providerId)!.embeddingModel!;
+
+  const pending = await findUnindexed(userId, model);
+  const { indexed, costUsd: indexCost } = await indexPending(aiService, providerId, model, userId, pending, options.signal);
+
+  const embedded = await aiService.embed(providerId, [query], { model, signal: options.signal });
+  if (!embedded.success || !embedded.embeddings) {
+    throw new Error(embedded.error || 'Embedding failed');
+  }
+  const matches = await embeddingStore.search(userId, model, embedded.embeddings[0], { limit: options.limit, sourceTypes: options.sourceTypes });
+
+  return {
+    providerId,
+    model,
+    indexed,
+    pending: pending.length - indexed,
+    matches,
+    costUsd: indexCost === null || embedded.costUsd == null ? null : indexCost + embedded.costUsd,
+  };
+}
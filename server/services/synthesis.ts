@@ -0,0 +1,113 @@
+import { consensusSynthesisSchema, type CacheOptions, type ConsensusSynthesis, type GenerationOptions, type Response } from "@shared/schema";
+import type { AIService, StructuredResponse } from "./ai-service";
+
+// Consensus synthesis for DIVE: one provider reads every completed answer to a query and merges them,
+// marking what the sources agree on, where they contradict each other and what only one of them claims.
+// The result is stored as a response of its own whose metadata.synthesis links back to each source response.
+
+// aiProvider of synthesis responses; the provider that wrote one is in metadata.synthesis.synthesizedBy
+export const SYNTHESIS_PROVIDER = 'synthesis';
+
+export interface SynthesisSource {
+  number: number; // How the synthesizer refers to the source
+  responseId: string;
+  aiProvider: string;
+}
+
+// Stored under responses.metadata.synthesis, with source numbers resolved to response ids
+export interface SynthesisProvenance {
+  synthesizedBy: string;
+  turnId: string | null;
+  sources: SynthesisSource[];
+  agreements?: { point: string; responseIds: string[] }[];
+  disagreements?: { topic: string; positions: { position: string; responseIds: string[] }[] }[];
+  uniqueClaims?: { claim: string; responseId: string }[];
+}
+
+export function isSynthesis(response: Pick<Response, 'aiProvider'>): boolean {
+  return response.aiProvider === SYNTHESIS_PROVIDER;
+}
+
+// Completed provider answers to the original query (turnId null) or to one follow-up turn
+export function selectSynthesisSources(responses: Response[], turnId: string | null): Response[] {
+  return responses.filter(r => (r.turnId ?? null) === turnId && !r.workStep && !isSynthesis(r) && r.status === 'complete' && r.content);
+}
+
+function buildPrompt(query: string, responses: Response[]): string {
+  const answers = responses
+    .map((response, index) => `--- SOURCE ${index + 1} (${response.aiProvider}) ---\n${response.content}\n--- END SOURCE ${index + 1} ---`)
+    .join('\n\n');
+
+  return `Several AI assistants answered the same question independently. Reconcile their answers.
+
+QUESTION: "${query}"
+
+${answers}
+
+Write one merged answer that keeps what is correct and useful from every source and does not add facts none of them state. Then list:
+- agreements: points two or more sources make, with the numbers of those sources
+- disagreements: points where sources contradict each other, with each position and the sources holding it
+- uniqueClaims: substantive claims only one source makes, with that source's number
+
+Refer to sources only by their numbers.`;
+}
+
+function labelSources(numbers: number[], sources: SynthesisSource[]): string {
+  return numbers.map(number => sources.find(source => source.number === number)?.aiProvider ?? `source ${number}`).join(', ');
+}
+
+// Plain-text rendering stored as the response content, so downloads and exports carry the breakdown too
+function renderSynthesis(data: ConsensusSynthesis, sources: SynthesisSource[]): string {
+  const sections = [data.answer.trim()];
+  if (data.agreements.length > 0) {
+    sections.push(`AGREEMENT\n${data.agreements.map(item => `- ${item.point} [${labelSources(item.sources, sources)}]`).join('\n')}`);
+  }
+  if (data.disagreements.length > 0) {
+    sections.push(`DISAGREEMENT\n${data.disagreements.map(item =>
+      `- ${item.topic}\n${item.positions.map(position => `  - ${position.position} [${labelSources(position.sources, sources)}]`).join('\n')}`
+    ).join('\n')}`);
+  }
+  if (data.uniqueClaims.length > 0) {
+    sections.push(`SUPPORTED BY ONE PROVIDER\n${data.uniqueClaims.map(item => `- ${item.claim} [${labelSources([item.source], sources)}]`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+// Numbers the synthesizer made up are dropped rather than guessed at
+function toResponseIds(numbers: number[], sources: SynthesisSource[]): string[] {
+  return Array.from(new Set(numbers))
+    .map(number => sources.find(source => source.number === number)?.responseId)
+    .filter((id): id is string => !!id);
+}
+
+export async function synthesizeResponses(
+  aiService: AIService,
+  synthesizerId: string,
+  query: string,
+  responses: Response[],
+  options: GenerationOptions & { cache?: CacheOptions; signal?: AbortSignal; onQueued?: (position: number | null) => void } = {}
+): Promise<{ result: StructuredResponse<ConsensusSynthesis>; provenance?: Omit<SynthesisProvenance, 'synthesizedBy' | 'turnId'> }> {
+  const sources = responses.map((response, index) => ({ number: index + 1, responseId: response.id, aiProvider: response.aiProvider }));
+  const result = await aiService.queryStructured(synthesizerId, buildPrompt(query, responses), consensusSynthesisSchema, {
+    ...options,
+    schemaName: 'consensus_synthesis',
+    maxTokens: options.maxTokens ?? 4000,
+  });
+  if (!result.success || !result.data) {
+    return { result };
+  }
+
+  const data = result.data;
+  return {
+    result: { ...result, content: renderSynthesis(data, sources) },
+    provenance: {
+      sources,
+      agreements: data.agreements.map(item => ({ point: item.point, responseIds: toResponseIds(item.sources, sources) })),
+      disagreements: data.disagreements.map(item => ({
+        topic: item.topic,
+        positions: item.positions.map(position => ({ position: position.position, responseIds: toResponseIds(position.sources, sources) })),
+      })),
+      uniqueClaims: data.uniqueClaims.flatMap(item => toResponseIds([item.source], sources).map(responseId => ({ claim: item.claim, responseId }))),
+    },
+  };
+}
@@ -0,0 +1,249 @@
+import { storage } from "../storage";
+import { loadAttachment } from "./attachments";
+import type { ToolCall, ToolDefinition } from "./providers";
+
+// Built-in tools providers can call in DIVE and WORK. They run on the server with the requesting
+// user's permissions; every run is recorded on the response (metadata.toolCalls).
+
+export interface ToolContext {
+  userId: string;
+  conversationId?: string; // Excluded from archive searches
+  attachedFiles: any[];
+}
+
+export interface ToolOutcome {
+  content: string;
+  isError: boolean;
+}
+
+interface ServerTool extends ToolDefinition {
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
+// Keeps a runaway tool result from flooding the model's context
+const MAX_RESULT_CHARS = 8000;
+const DEFAULT_READ_LENGTH = 4000;
+const SEARCH_SCAN_LIMIT = 50; // Most recent conversations whose responses are searched
+
+class ToolInputError extends Error {}
+
+function stringArg(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ToolInputError(`"${name}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function numberArg(args: Record<string, unknown>, name: string, fallback: number): number {
+  const value = args[name];
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new ToolInputError(`"${name}" must be a non-negative number`);
+  }
+  return Math.floor(value);
+}
+
+function snippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase();
+  const index = Math.max(0, Math.min(...terms.map(term => lower.indexOf(term)).filter(i => i >= 0)));
+  const start = Math.max(0, index - 100);
+  return (start > 0 ? '…' : '') + text.slice(start, start + 300).replace(/\s+/g, ' ') + (start + 300 < text.length ? '…' : '');
+}
+
+const searchConversations: ServerTool = {
+  name: 'search_conversations',
+  description: "Search the user's earlier conversations (queries and AI answers) for keywords. Returns matching conversations with snippets.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Keywords to look for' },
+      limit: { type: 'number', description: 'Maximum results, default 5' },
+    },
+    required: ['query'],
+  },
+  async execute(args, context) {
+    const terms = stringArg(args, 'query').toLowerCase().split(/\s+/).filter(Boolean);
+    const limit = Math.min(numberArg(args, 'limit', 5), 20);
+    const conversations = (await storage.getUserConversations(context.userId))
+      .filter(conversation => conversation.id !== context.conversationId)
+      .slice(0, SEARCH_SCAN_LIMIT);
+
+    const matches: { score: number; line: string }[] = [];
+    for (const conversation of conversations) {
+      const responses = await storage.getConversationResponses(conversation.id);
+      const texts = [conversation.query, ...responses.filter(r => r.status === 'complete').map(r => r.content)];
+      const haystack = texts.join('\n').toLowerCase();
+      const score = terms.filter(term => haystack.includes(term)).length;
+      if (score === 0) continue;
+
+      const best = texts.find(text => terms.some(term => text.toLowerCase().includes(term)))!;
+      const date = conversation.createdAt ? conversation.createdAt.toISOString().slice(0, 10) : 'unknown date';
+      matches.push({ score, line: `[${date}] "${conversation.title}" (${conversation.mode}): ${snippet(best, terms)}` });
+    }
+
+    if (matches.length === 0) return `No earlier conversations mention: ${terms.join(' ')}`;
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(match => match.line)
+      .join('\n');
+  },
+};
+
+const readAttachment: ServerTool = {
+  name: 'read_attachment',
+  description: 'Read a section of a text file attached to this conversation, by filename and character offset. Use it for files the prompt only summarizes.',
+  parameters: {
+    type: 'object',
+    properties: {
+      filename: { type: 'string', description: 'Name of the attached file' },
+      offset: { type: 'number', description: 'Character offset to start from, default 0' },
+      length: { type: 'number', description: `Characters to read, default ${DEFAULT_READ_LENGTH}` },
+    },
+    required: ['filename'],
+  },
+  async execute(args, context) {
+    const filename = stringArg(args, 'filename');
+    const offset = numberArg(args, 'offset', 0);
+    const length = Math.min(numberArg(args, 'length', DEFAULT_READ_LENGTH), MAX_RESULT_CHARS);
+
+    const file = context.attachedFiles.find(candidate => (candidate.name || candidate.filename) === filename);
+    if (!file) {
+      const available = context.attachedFiles.map(candidate => candidate.name || candidate.filename).join(', ');
+      throw new ToolInputError(`No attached file named "${filename}"${available ? `; attached: ${available}` : ''}`);
+    }
+
+    const attachment = await loadAttachment(file);
+    if (!attachment) throw new Error(`"${filename}" is no longer available`);
+    if (attachment.kind !== 'text') {
+      return `"${filename}" is ${attachment.kind === 'image' ? 'an image' : 'a PDF'} and was attached to the message itself`;
+    }
+
+    const text = attachment.data.toString('utf-8');
+    const end = Math.min(text.length, offset + length);
+    return `Characters ${offset}-${end} of ${text.length}:\n${text.slice(offset, end)}`;
+  },
+};
+
+// Arithmetic without eval: numbers, + - * / % ^, parentheses, pi, e and a few functions
+const MATH_FUNCTIONS: Record<string, (...values: number[]) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  ln: Math.log, log: Math.log10, exp: Math.exp, sin: Math.sin, cos: Math.cos, tan: Math.tan,
+  min: Math.min, max: Math.max,
+};
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z]+|[-+*/%^(),]/gi) ?? [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new ToolInputError('Expression contains unsupported characters');
+  }
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new ToolInputError(`Expected "${token}"`);
+  };
+
+  // Precedence climbing: sum > product > unary > power > primary, so -2^2 is -(2^2)
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') value = next() === '+' ? value + product() : value - product();
+    return value;
+  };
+  const product = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = unary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const unary = (): number => {
+    if (peek() === '-' || peek() === '+') {
+      return next() === '-' ? -unary() : unary();
+    }
+    return power();
+  };
+  const power = (): number => {
+    const base = primary();
+    if (peek() !== '^') return base;
+    next();
+    return base ** unary(); // Right-associative, and 2^-1 is allowed
+  };
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) throw new ToolInputError('Unexpected end of expression');
+    if (token === '(') {
+      const value = sum();
+      expect(')');
+      return value;
+    }
+    if (/^\d/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+    if (name in MATH_FUNCTIONS) {
+      expect('(');
+      const values = [sum()];
+      while (peek() === ',') {
+        next();
+        values.push(sum());
+      }
+      expect(')');
+      return MATH_FUNCTIONS[name](...values);
+    }
+    throw new ToolInputError(`Unknown name "${token}"`);
+  };
+
+  const result = sum();
+  if (position < tokens.length) throw new ToolInputError(`Unexpected "${tokens[position]}"`);
+  return result;
+}
+
+const calculate: ServerTool = {
+  name: 'calculate',
+  description: 'Evaluate an arithmetic expression exactly, e.g. "(1250 * 0.075) / 12" or "sqrt(2) ^ 3". Supports + - * / % ^, parentheses, pi, e, sqrt, abs, round, floor, ceil, ln, log, exp, sin, cos, tan, min, max.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression to evaluate' },
+    },
+    required: ['expression'],
+  },
+  async execute(args) {
+    const expression = stringArg(args, 'expression');
+    const result = evaluateExpression(expression);
+    if (!Number.isFinite(result)) throw new ToolInputError(`${expression} is not a finite number`);
+    return `${expression} = ${result}`;
+  },
+};
+
+const BUILT_IN_TOOLS: ServerTool[] = [searchConversations, readAttachment, calculate];
+
+// Definitions only, as sent to providers
+export function getToolDefinitions(): ToolDefinition[] {
+  return BUILT_IN_TOOLS.map(({ execute, ...definition }) => definition);
+}
+
+// Failures are returned to the model as error results so it can correct the call or carry on
+export async function runTool(call: ToolCall, context: ToolContext): Promise<ToolOutcome> {
+  const tool = BUILT_IN_TOOLS.find(candidate => candidate.name === call.name);
+  if (!tool) {
+    return { content: `Unknown tool "${call.name}"`, isError: true };
+  }
+
+  try {
+    const content = await tool.execute(call.arguments, context);
+    return {
+      content: content.length > MAX_RESULT_CHARS ? `${content.slice(0, MAX_RESULT_CHARS)}\n[truncated]` : content,
+      isError: false,
+    };
+  } catch (error: any) {
+    if (!(error instanceof ToolInputError)) {
+      console.error(`Tool ${call.name} failed:`, error);
+    }
+    return { content: `Error: ${error.message}`, isError: true };
+  }
+}
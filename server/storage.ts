@@ -1,4 +1,4 @@
-import { type User, type InsertUser, type Conversation, type InsertConversation, type Response, type InsertResponse, type Credentials, type FileAttachment, type InsertFileAttachment } from "@shared/schema";
+import { type User, type InsertUser, type Conversation, type InsertConversation, type Response, type InsertResponse, type Credentials, type FileAttachment, type InsertFileAttachment, type ConversationTurn, type InsertConversationTurn } from "@shared/schema";
 import { randomUUID } from "crypto";
 
 export interface IStorage {
@@ -19,6 +19,10 @@ export interface IStorage {
   updateConversation(id: string, data: Partial<Conversation>): Promise<Conversation | undefined>;
   updateConversationWorkflow(conversationId: string, workflowState: any): Promise<void>;
   
+  // Conversation turn methods
+  createConversationTurn(turn: InsertConversationTurn): Promise<ConversationTurn>;
+  getConversationTurns(conversationId: string): Promise<ConversationTurn[]>;
+  
   // Response methods
   createResponse(response: InsertResponse): Promise<Response>;
   getResponse(id: string): Promise<Response | undefined>;
@@ -38,12 +42,14 @@ export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private conversations: Map<string, Conversation>;
   private responses: Map<string, Response>;
+  private conversationTurns: Map<string, ConversationTurn>;
   private fileAttachments: Map<string, FileAttachment>;
 
   constructor() {
     this.users = new Map();
     this.conversations = new Map();
     this.responses = new Map();
+    this.conversationTurns = new Map();
     this.fileAttachments = new Map();
   }
 
@@ -113,6 +119,7 @@ export class MemStorage implements IStorage {
       userId,
       attachedFiles: insertConversation.attachedFiles || [],
       workflowState: insertConversation.workflowState || {},
+      blindJudging: null,
       createdAt: new Date(),
     };
     this.conversations.set(id, conversation);
@@ -147,6 +154,23 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async createConversationTurn(insertTurn: InsertConversationTurn): Promise<ConversationTurn> {
+    const id = randomUUID();
+    const turn: ConversationTurn = {
+      ...insertTurn,
+      id,
+      createdAt: new Date(),
+    };
+    this.conversationTurns.set(id, turn);
+    return turn;
+  }
+
+  async getConversationTurns(conversationId: string): Promise<ConversationTurn[]> {
+    return Array.from(this.conversationTurns.values())
+      .filter(turn => turn.conversationId === conversationId)
+      .sort((a, b) => a.turnNumber - b.turnNumber);
+  }
+
   async createResponse(insertResponse: InsertResponse): Promise<Response> {
     const id = randomUUID();
     const response: Response = {
@@ -154,7 +178,13 @@ export class MemStorage implements IStorage {
       id,
       status: insertResponse.status || "pending",
       metadata: insertResponse.metadata || {},
+      turnId: insertResponse.turnId || null,
+      inputTokens: null,
+      outputTokens: null,
+      costUsd: null,
       award: insertResponse.award || null,
+      awardBlind: null,
+      rating: null,
       responseTimeMs: insertResponse.responseTimeMs || null,
       verificationStatus: insertResponse.verificationStatus || null,
       verificationResults: insertResponse.verificationResults || null,
@@ -221,6 +251,7 @@ export class MemStorage implements IStorage {
       const completeResponses = responses.filter(r => r.status === 'complete');
       const verifiedResponses = responses.filter(r => r.verificationStatus === 'complete');
       const awardCounts = { gold: 0, silver: 0, bronze: 0, finished: 0, quit: 0, titanic: 0 };
+      const blindAwardCounts = { gold: 0, silver: 0, bronze: 0, finished: 0, quit: 0, titanic: 0 };
       
       let totalResponseTime = 0;
       let responseTimeCount = 0;
@@ -231,6 +262,9 @@ export class MemStorage implements IStorage {
         // Count awards
         if (response.award && awardCounts.hasOwnProperty(response.award)) {
           awardCounts[response.award as keyof typeof awardCounts]++;
+          if (response.awardBlind) {
+            blindAwardCounts[response.award as keyof typeof blindAwardCounts]++;
+          }
         }
         
         // Calculate average response times
@@ -253,6 +287,7 @@ export class MemStorage implements IStorage {
         completeResponses: completeResponses.length,
         verifiedResponses: verifiedResponses.length,
         awards: awardCounts,
+        blindAwards: blindAwardCounts, // Given without the provider visible; awards minus these were sighted
         avgResponseTimeMs: responseTimeCount > 0 ? Math.round(totalResponseTime / responseTimeCount) : null,
         avgAccuracyScore: accuracyCount > 0 ? Math.round((totalAccuracyScore / accuracyCount) * 10) / 10 : null,
         successRate: responses.length > 0 ? Math.round((completeResponses.length / responses.length) * 100) : 0,
@@ -1,10 +1,12 @@
-import { AIService } from './ai-service';
+import { AIService } from './services/ai-service';
+import { callWithFallback, type FallbackFailure } from './services/providers';
 
 interface WorkflowNode {
   id: string;
   type: 'start' | 'ai' | 'decision' | 'end';
   title: string;
   provider?: string;
+  fallbackProviders?: string[]; // Tried in order when provider fails
   config?: {
     prompt?: string;
     temperature?: number;
@@ -38,6 +40,8 @@ interface ExecutionStep {
   status: 'pending' | 'running' | 'completed' | 'failed';
   result?: any;
   error?: string;
+  provider?: string; // AI nodes: the provider that answered, which may be a fallback
+  fallbackFailures?: FallbackFailure[];
   startTime?: Date;
   endTime?: Date;
 }
@@ -91,7 +95,7 @@ export class WorkflowEngine {
           console.log(`Executing step: ${step.node.title}`);
 
           // Execute the node based on its type
-          const result = await this.executeNode(step.node, context, userCredentials);
+          const result = await this.executeNode(step.node, context, executionStep, userCredentials);
           
           executionStep.result = result;
           executionStep.status = 'completed';
@@ -202,6 +206,7 @@ export class WorkflowEngine {
   private async executeNode(
     node: WorkflowNode, 
     context: ExecutionContext,
+    executionStep: ExecutionStep,
     userCredentials?: Record<string, string>
   ): Promise<any> {
     switch (node.type) {
@@ -227,12 +232,16 @@ export class WorkflowEngine {
 
         console.log(`Sending to ${node.provider}:`, fullPrompt);
 
-        // Execute AI request
-        const aiResponse = await this.aiService.queryAI(
-          node.provider,
-          fullPrompt,
-          userCredentials
+        // Execute AI request through the provider registry, falling back down the node's list
+        const aiResponse = await callWithFallback(
+          [node.provider, ...(node.fallbackProviders || [])],
+          provider => this.aiService.query(provider, fullPrompt)
         );
+        executionStep.provider = aiResponse.providerId;
+        executionStep.fallbackFailures = aiResponse.fallbackFailures;
+        if (!aiResponse.success) {
+          throw new Error(aiResponse.error || `${aiResponse.providerId} returned no response`);
+        }
 
         return aiResponse.content;
 
@@ -272,6 +281,9 @@ export class WorkflowEngine {
       if (!node.provider) {
         errors.push(`AI node "${node.title}" is missing a provider`);
       }
+      if (node.fallbackProviders && (!Array.isArray(node.fallbackProviders) || node.fallbackProviders.some(provider => typeof provider !== 'string'))) {
+        errors.push(`AI node "${node.title}" has an invalid fallback provider list`);
+      }
     });
 
     // Check for disconnected nodes (except start and end)
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, boolean, integer, doublePrecision, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,6 +15,15 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Blind judging: while enabled and not yet revealed, responses are listed under shuffled labels
+// instead of their providers, and awards given meanwhile are recorded as blind
+export interface BlindJudgingState {
+  enabled: boolean;
+  labels: Record<string, string>; // Response id to label, e.g. "Swimmer C"
+  startedAt: string;
+  revealedAt?: string;
+}
+
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).notNull(),
@@ -36,6 +45,8 @@ export const conversations = pgTable("conversations", {
     totalSteps?: number;
     collaborativeDoc?: string;
     startedAt?: string;
+    status?: string; // e.g. complete_awaiting_feedback, cancelled
+    cancelledAt?: string;
     strategy?: 'sequential' | 'parallel_merge' | 'specialist_teams' | 'iterative_refinement' | 'competitive_selection';
     queryAnalysis?: {
       complexity: 'simple' | 'moderate' | 'complex' | 'expert';
@@ -54,6 +65,16 @@ export const conversations = pgTable("conversations", {
       completedAt?: string;
     }[];
   }>().default({}),
+  blindJudging: json("blind_judging").$type<BlindJudgingState>(), // null when never judged blind
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Follow-up turns after the conversation's original query (which is implicitly turn 0)
+export const conversationTurns = pgTable("conversation_turns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").references(() => conversations.id).notNull(),
+  turnNumber: integer("turn_number").notNull(),
+  query: text("query").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -62,8 +83,10 @@ export const responses = pgTable("responses", {
   conversationId: varchar("conversation_id").references(() => conversations.id).notNull(),
   aiProvider: text("ai_provider").notNull(),
   content: text("content").notNull(),
-  status: text("status").notNull().default("pending"), // pending, complete, error
+  status: text("status").notNull().default("pending"), // pending, complete, error, cancelled
   award: text("award"), // gold, silver, bronze, finished, quit, titanic
+  awardBlind: boolean("award_blind"), // Whether the award was given with the provider hidden; null for awards predating blind judging
+  rating: text("rating"), // positive, negative
   responseTimeMs: varchar("response_time_ms"), // time taken to generate response
   verificationStatus: text("verification_status").default("none"), // none, pending, complete, failed
   verificationResults: json("verification_results").$type<{
@@ -76,12 +99,19 @@ export const responses = pgTable("responses", {
     recommendations: string[];
   }[]>().default([]),
   workStep: varchar("work_step"), // For WORK mode: which step this response belongs to
+  turnId: varchar("turn_id").references(() => conversationTurns.id), // null for the original query
+  inputTokens: integer("input_tokens"), // null when the provider reported no usage
+  outputTokens: integer("output_tokens"),
+  costUsd: doublePrecision("cost_usd"), // null when the model has no entry in the price table
   handoffData: json("handoff_data").$type<{
     previousStep?: number;
     nextAI?: string;
     contextSummary?: string;
     taskSpecification?: string;
     buildingBlocks?: string[];
+    assignedProvider?: string; // WORK fallback: the step's own provider
+    usedProvider?: string; // and the one that produced this response
+    fallbackFailures?: { providerId: string; error: string }[];
   }>().default({}),
   metadata: json("metadata").$type<Record<string, any>>().default({}),
   createdAt: timestamp("created_at").defaultNow(),
@@ -108,6 +138,13 @@ export const insertResponseSchema = createInsertSchema(responses).pick({
   workStep: true,
   handoffData: true,
   metadata: true,
+  turnId: true,
+});
+
+export const insertConversationTurnSchema = createInsertSchema(conversationTurns).pick({
+  conversationId: true,
+  turnNumber: true,
+  query: true,
 });
 
 export const credentialsSchema = z.object({
@@ -118,8 +155,141 @@ export const credentialsSchema = z.object({
   perplexity: z.string().optional(),
   deepseek: z.string().optional(),
   grok: z.string().optional(),
+  mistral: z.string().optional(),
+});
+
+// User-defined OpenAI-compatible endpoint (llama.cpp, vLLM, Ollama, ...), stored encrypted with the credentials
+export const customEndpointSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]{0,31}$/, "Use lowercase letters, digits and dashes"),
+  name: z.string().min(1).max(50),
+  baseURL: z.string().url(),
+  model: z.string().min(1),
+  apiKey: z.string().optional(),
+  maxTokens: z.number().int().positive().max(64000).optional(),
+  embeddingModel: z.string().min(1).optional(), // Served from the same /embeddings endpoint
+});
+
+// Per-provider generation parameters; anything omitted falls back to the provider's defaults
+export const generationOptionsSchema = z.object({
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().max(64000).optional(),
+  systemPrompt: z.string().optional(),
+});
+
+export const providerOptionsSchema = z.record(generationOptionsSchema);
+
+// Opt-in response cache for a request. Present means cached answers may be used; bypass forces a
+// fresh call whose answer replaces the cached one.
+export const cacheOptionsSchema = z.object({
+  ttlSeconds: z.number().int().positive().max(30 * 24 * 60 * 60).optional(),
+  bypass: z.boolean().optional(),
+});
+
+// What a TURN verifier must return; requested through AIService.queryStructured
+export const verificationReportSchema = z.object({
+  accuracyScore: z.number().describe("Rating from 1 (inaccurate) to 10 (fully accurate)")
+    .refine(score => score >= 1 && score <= 10, "accuracyScore must be between 1 and 10"),
+  factualErrors: z.array(z.string()).describe("Factual errors found, empty if none"),
+  strengths: z.array(z.string()),
+  weaknesses: z.array(z.string()),
+  overallAssessment: z.string(),
+  recommendations: z.array(z.string()),
+});
+
+// What a DIVE synthesizer must return; sources are referred to by their 1-based number in the prompt
+export const consensusSynthesisSchema = z.object({
+  answer: z.string().describe("One merged answer in Markdown that keeps the best of every source"),
+  agreements: z.array(z.object({
+    point: z.string(),
+    sources: z.array(z.number().int()).describe("Numbers of the sources that make this point"),
+  })).describe("Points two or more sources agree on"),
+  disagreements: z.array(z.object({
+    topic: z.string(),
+    positions: z.array(z.object({
+      position: z.string(),
+      sources: z.array(z.number().int()),
+    })),
+  })).describe("Points on which sources contradict each other"),
+  uniqueClaims: z.array(z.object({
+    claim: z.string(),
+    source: z.number().int(),
+  })).describe("Substantive claims made by only one source"),
+});
+
+// What an LLM judge must return for a DIVE turn; sources are referred to by their 1-based number in the prompt
+const judgeScore = (criterion: string) => z.number().describe(`${criterion}, from 1 (poor) to 10 (excellent)`)
+  .refine(score => score >= 1 && score <= 10, `${criterion} must be between 1 and 10`);
+
+export const judgeVerdictSchema = z.object({
+  verdicts: z.array(z.object({
+    source: z.number().int(),
+    accuracy: judgeScore("Factual accuracy"),
+    completeness: judgeScore("How fully the question is answered"),
+    clarity: judgeScore("Clarity and organization"),
+    truthfulness: judgeScore("Adherence to the truthfulness standards"),
+    award: z.enum(['gold', 'silver', 'bronze', 'titanic', 'none'])
+      .describe("gold, silver and bronze for the three best answers, at most one each; titanic for an answer that fails badly; otherwise none"),
+    justification: z.string().describe("Why this answer earned its scores and award, citing specifics"),
+  })).describe("One verdict per source"),
+});
+
+export type JudgeVerdict = z.infer<typeof judgeVerdictSchema>;
+
+export const judgeRequestSchema = z.object({
+  judgeAI: z.string().min(1),
+  turnId: z.string().nullable().optional(), // Omit or null for the original query
+  options: generationOptionsSchema.optional(),
+  cache: cacheOptionsSchema.optional(),
+});
+
+// Claim-level TURN verification: atomic claims pulled from a response, then a verdict on each
+export const CLAIM_VERDICTS = ['supported', 'refuted', 'unverifiable'] as const;
+
+export const claimExtractionSchema = z.object({
+  claims: z.array(z.object({
+    quote: z.string().describe("The sentence or clause of the response that makes the claim, copied exactly"),
+    claim: z.string().describe("The claim restated as one self-contained statement that can be checked on its own"),
+  })).describe("Every factual claim in the response, one atomic fact each, in the order they appear"),
 });
 
+export const claimVerdictSchema = z.object({
+  verdicts: z.array(z.object({
+    claim: z.number().int().describe("Number of the claim"),
+    verdict: z.enum(CLAIM_VERDICTS),
+    rationale: z.string().describe("The evidence or reasoning the verdict rests on"),
+    correction: z.string().nullable().describe("For a refuted claim, what is actually true; otherwise null"),
+  })).describe("One verdict per claim"),
+});
+
+export const claimVerificationRequestSchema = z.object({
+  verifiers: z.array(z.string().min(1)).min(1).max(5),
+  extractorAI: z.string().min(1).optional(), // Defaults to the first verifier
+  cache: cacheOptionsSchema.optional(),
+});
+
+export type ClaimVerdict = typeof CLAIM_VERDICTS[number];
+
+export interface VerifiedClaim {
+  index: number;
+  claim: string;
+  quote: string;
+  start: number | null; // Span of the quote in the response content; null when it could not be found
+  end: number | null;
+  verdict: ClaimVerdict | 'disputed'; // disputed: verifiers both supported and refuted it
+  verdicts: { verifier: string; verdict: ClaimVerdict; rationale: string; correction: string | null }[];
+}
+
+// Stored under responses.metadata.claimVerification; each run replaces the previous one
+export interface ClaimVerification {
+  extractedBy: string;
+  verifiers: string[];
+  verifiedAt: string;
+  claims: VerifiedClaim[];
+  failures: { verifier: string; error: string }[]; // Verifiers that returned nothing usable
+  costUsd: number | null;
+}
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
@@ -140,30 +310,150 @@ export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertResponse = z.infer<typeof insertResponseSchema>;
 export type Response = typeof responses.$inferSelect;
+export type InsertConversationTurn = z.infer<typeof insertConversationTurnSchema>;
+export type ConversationTurn = typeof conversationTurns.$inferSelect;
 export type Credentials = z.infer<typeof credentialsSchema>;
+export type CustomEndpoint = z.infer<typeof customEndpointSchema>;
+export type GenerationOptions = z.infer<typeof generationOptionsSchema>;
+export type ProviderOptions = z.infer<typeof providerOptionsSchema>;
+export type VerificationReport = z.infer<typeof verificationReportSchema>;
+export type ConsensusSynthesis = z.infer<typeof consensusSynthesisSchema>;
+export type CacheOptions = z.infer<typeof cacheOptionsSchema>;
 
 export interface AIProvider {
   id: string;
   name: string;
   company: string;
   requiresApiKey: boolean;
-  status: 'connected' | 'setup_required' | 'error' | 'disabled';
+  status: 'connected' | 'setup_required' | 'error' | 'disabled' | 'degraded';
 }
 
 export interface QueryRequest {
   query: string;
   selectedAIs: string[];
   conversationId?: string;
+  providerOptions?: ProviderOptions; // Keyed by provider id
+  enableTools?: boolean; // Let providers call the built-in server tools (DIVE and WORK)
+  cache?: CacheOptions; // Omit to always call the provider
+  fallbackProviders?: string[]; // WORK: tried in order when a step's assigned provider fails
+}
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+}
+
+export interface ProviderModelCatalog {
+  id: string;
+  name: string;
+  defaultModel?: string;
+  models: ProviderModel[];
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface FollowUpRequest {
+  query: string;
+  selectedAIs?: string[]; // Defaults to every provider that answered the original query
+  providerOptions?: ProviderOptions;
+  cache?: CacheOptions;
+}
+
+export const responseDiffRequestSchema = z.object({
+  turnId: z.string().nullable().optional(), // Omit or null for the original query
+  method: z.enum(['auto', 'embedding', 'lexical']).optional(), // auto: embeddings when a provider can embed
+  threshold: z.number().min(0).max(1).optional(), // Similarity at which two segments count as the same point
+});
+
+export type ResponseDiffRequest = z.infer<typeof responseDiffRequestSchema>;
+
+export const AWARD_TYPES = ['gold', 'silver', 'bronze', 'finished', 'quit', 'titanic'] as const;
+
+export const responseAwardSchema = z.object({
+  award: z.enum(AWARD_TYPES).nullable(), // null takes the award back
+});
+
+export const blindJudgingRequestSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const responseRatingSchema = z.object({
+  rating: z.enum(['positive', 'negative']).nullable(), // null clears the rating
+});
+
+export const QUERY_TYPES = ['analytical', 'creative', 'technical', 'strategic', 'research'] as const;
+
+export const leaderboardQuerySchema = z.object({
+  groupBy: z.enum(['provider', 'model']).default('provider'),
+  queryType: z.enum(QUERY_TYPES).optional(), // As classified by QueryAnalyzer
+  judging: z.enum(['all', 'blind', 'sighted']).default('all'),
+});
+
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+export interface LeaderboardEntry {
+  provider: string;
+  model: string | null; // Set when grouped by model; null when the model was not recorded
+  elo: number; // Sequential Elo over matches in the order they were played
+  bradleyTerry: number; // Order-independent strength on the same scale as elo
+  matches: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  awards: Record<string, number>;
+}
+
+export interface Leaderboard {
+  groupBy: LeaderboardQuery['groupBy'];
+  queryType: LeaderboardQuery['queryType'] | null;
+  judging: LeaderboardQuery['judging'];
+  dives: number; // Judged DIVE turns the matches came from
+  matches: number;
+  queryTypes: Record<string, number>; // Judged DIVE turns per query type, before the queryType filter
+  entries: LeaderboardEntry[]; // Strongest first by Bradley-Terry
+}
+
+// shared: every other response makes the point; partial: some do; unique: no other response does
+export type DiffSegmentStatus = 'shared' | 'partial' | 'unique';
+
+export interface DiffSegment {
+  index: number;
+  paragraph: number; // Paragraph of the original answer the segment came from
+  text: string;
+  status: DiffSegmentStatus;
+  matches: { responseId: string; segmentIndex: number; similarity: number }[]; // Best match in each other response
+}
+
+export interface ResponseDiff {
+  method: 'embedding' | 'lexical';
+  model?: string; // Embedding model, when method is embedding
+  fallbackReason?: string; // Why embeddings were requested but not used
+  threshold: number;
+  responses: {
+    responseId: string;
+    aiProvider: string;
+    segments: DiffSegment[];
+    counts: Record<DiffSegmentStatus, number>;
+  }[];
+  agreement: { a: string; b: string; score: number }[]; // Share of both responses' segments the pair has in common
+  costUsd?: number | null;
 }
 
 export interface AIResponse {
   id: string;
   aiProvider: string;
   content: string;
-  status: 'pending' | 'complete' | 'error';
+  status: 'pending' | 'complete' | 'error' | 'cancelled';
   timestamp: string;
+  turnId?: string | null;
   award?: 'gold' | 'silver' | 'bronze' | 'finished' | 'quit' | 'titanic';
   awardSaved?: boolean;
+  awardBlind?: boolean | null;
+  rating?: 'positive' | 'negative' | null;
+  blindLabel?: string; // Set instead of the provider while the conversation is judged blind
   verificationStatus?: 'none' | 'pending' | 'complete' | 'failed';
   verificationResults?: {
     verifiedBy: string;
@@ -198,3 +488,79 @@ export const disposableTokens = pgTable("disposable_tokens", {
 
 export type DisposableToken = typeof disposableTokens.$inferSelect;
 export type InsertDisposableToken = typeof disposableTokens.$inferInsert;
+
+// Provider answers keyed by a hash of everything that shapes them (see server/services/response-cache)
+export const promptCache = pgTable("prompt_cache", {
+  key: varchar("key", { length: 64 }).primaryKey(),
+  providerId: text("provider_id").notNull(),
+  model: text("model"),
+  content: text("content").notNull(),
+  inputTokens: integer("input_tokens"), // Usage and cost of the original call
+  outputTokens: integer("output_tokens"),
+  costUsd: doublePrecision("cost_usd"),
+  hitCount: integer("hit_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastHitAt: timestamp("last_hit_at"),
+});
+
+export type PromptCacheEntry = typeof promptCache.$inferSelect;
+
+export type EmbeddingSourceType = 'response' | 'conversation' | 'attachment';
+
+// Text embeddings for semantic search (see server/services/embedding-store). Vectors are unit length
+// and only comparable within one model. Stored as double precision[] so the table works without
+// pgvector; searches cast to vector when the extension is installed.
+export const embeddings = pgTable("embeddings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  sourceType: text("source_type").$type<EmbeddingSourceType>().notNull(),
+  sourceId: varchar("source_id").notNull(), // Response, conversation or attachment id
+  conversationId: varchar("conversation_id"), // For linking results back to their conversation
+  chunkIndex: integer("chunk_index").notNull().default(0), // Long texts are embedded in chunks
+  providerId: text("provider_id").notNull(),
+  model: text("model").notNull(),
+  dimensions: integer("dimensions").notNull(),
+  content: text("content").notNull(), // The embedded text, returned as the match snippet
+  vector: doublePrecision("vector").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("embeddings_source_chunk_model").on(table.userId, table.sourceType, table.sourceId, table.chunkIndex, table.model),
+]);
+
+export type StoredEmbedding = typeof embeddings.$inferSelect;
+
+export const semanticSearchSchema = z.object({
+  query: z.string().trim().min(1).max(2000),
+  limit: z.number().int().min(1).max(50).optional(),
+  sourceTypes: z.array(z.enum(['response', 'conversation', 'attachment'])).optional(),
+});
+
+export type SemanticSearchRequest = z.infer<typeof semanticSearchSchema>;
+
+export interface JudgeScores {
+  accuracy: number;
+  completeness: number;
+  clarity: number;
+  truthfulness: number;
+}
+
+// LLM-as-judge awards, one row per response per judging run. Kept apart from responses.award,
+// which is only ever set by people, so judge and human awards can be compared over time.
+export const judgeAwards = pgTable("judge_awards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull(), // Shared by the rows of one judging run
+  conversationId: varchar("conversation_id").references(() => conversations.id).notNull(),
+  turnId: varchar("turn_id").references(() => conversationTurns.id), // null for the original query
+  responseId: varchar("response_id").references(() => responses.id).notNull(),
+  judgeProvider: text("judge_provider").notNull(),
+  judgeModel: text("judge_model"),
+  award: text("award"), // gold, silver, bronze, titanic; null for no medal
+  scores: json("scores").$type<JudgeScores>().notNull(),
+  total: doublePrecision("total").notNull(), // Mean of the scores
+  justification: text("justification").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type JudgeAward = typeof judgeAwards.$inferSelect;
+export type InsertJudgeAward = typeof judgeAwards.$inferInsert;